@@ -36,6 +36,21 @@ export interface Config {
         max: number;
         windowMs: number;
     };
+    ingestion: {
+        maxBatchSize: number;
+        maxImportBytes: number;
+        cloudTrailAllowList: string[];
+    };
+    lastGood: {
+        healthyPeriodMs: number;
+        lookbackMs: number;
+    };
+    jobs: {
+        pollIntervalMs: number;
+        maxAttempts: number;
+        backoffBaseMs: number;
+        lockTimeoutMs: number;
+    };
 }
 
 const config: Config = {
@@ -67,6 +82,28 @@ const config: Config = {
         max: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),
         windowMs: parseInt(process.env.RATE_LIMIT_WINDOW || '900000', 10),
     },
+    ingestion: {
+        maxBatchSize: parseInt(process.env.INGESTION_MAX_BATCH_SIZE || '100', 10),
+        maxImportBytes: parseInt(process.env.INGESTION_MAX_IMPORT_BYTES || '10485760', 10),
+        // "<service>:<eventName>" globs, e.g. "ec2:RunInstances" or "iam:*"
+        cloudTrailAllowList: (
+            process.env.CLOUDTRAIL_ALLOW_LIST ||
+            '*:Create*,*:Delete*,*:Update*,*:Modify*,*:Put*,*:Run*,*:Terminate*,*:Attach*,*:Detach*,' +
+            '*:Authorize*,*:Revoke*,*:Associate*,*:Disassociate*,*:Reboot*,*:Start*,*:Stop*,*:Enable*,*:Disable*,' +
+            '*:Set*,*:Tag*,*:Untag*'
+        ).split(',').map(pattern => pattern.trim()).filter(pattern => pattern.length > 0),
+    },
+    lastGood: {
+        // How long a deploy must run without being replaced or hitting an incident to count as good
+        healthyPeriodMs: parseInt(process.env.LAST_GOOD_HEALTHY_PERIOD_MS || '3600000', 10),
+        lookbackMs: parseInt(process.env.LAST_GOOD_LOOKBACK_MS || '2592000000', 10),
+    },
+    jobs: {
+        pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10),
+        maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '5', 10),
+        backoffBaseMs: parseInt(process.env.JOB_BACKOFF_BASE_MS || '5000', 10),
+        lockTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '300000', 10),
+    },
 };
 
 // Validate required environment variables
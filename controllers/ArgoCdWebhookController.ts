@@ -0,0 +1,60 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { WebhookDeliveryService } from "../services/WebhookDelivery";
+import { ApiKeyModel } from "../models/ApiKey";
+import { verifyArgoCdToken } from "../utils/validateArgoCdToken";
+import { sendQueued } from "../views/webhookResponses";
+
+type ArgoCdWebhookParams = {
+  orgId: string;
+};
+
+export class ArgoCdWebhookController {
+  static async handle(
+    req: FastifyRequest<{ Params: ArgoCdWebhookParams }>,
+    reply: FastifyReply
+  ) {
+    const authorization = req.headers["authorization"];
+    const { orgId } = req.params;
+
+    if (!authorization) {
+      return reply.code(401).send({ success: false, status: "rejected", error: "You must provide a valid Authorization header" });
+    }
+
+    const apiKeyModel = new ApiKeyModel(req.server);
+
+    const apiKey = await apiKeyModel.getById(orgId);
+    if (!apiKey || apiKey.organization_id !== orgId) {
+      return reply.code(404).send({
+        success: false,
+        status: 'rejected',
+        message: 'API key not found'
+      });
+    }
+
+    const isValid = verifyArgoCdToken({
+      authorization: String(authorization),
+      secret: apiKey.key_hash
+    });
+
+    if (!isValid) {
+      return reply.code(401).send({ success: false, status: 'rejected', error: 'Invalid Argo CD token' });
+    }
+
+    try {
+      // Argo CD sends no delivery ID. Redeliveries are only deduplicated, by natural key, when the
+      // organization sets dedupe_window_seconds; otherwise each one is stored as a new event.
+      const delivery = await WebhookDeliveryService.enqueue({
+        organization_id: orgId,
+        provider: 'argocd',
+        event_type: 'sync',
+        headers: req.headers,
+        raw_body: String(req.rawBody),
+      }, req.server);
+
+      return sendQueued(reply, delivery);
+    } catch (error) {
+      req.log.error(error, 'Failed to queue Argo CD delivery');
+      return reply.code(500).send({ success: false, status: 'rejected', error: 'Failed to queue delivery' });
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { WebhookDeliveryService } from "../services/WebhookDelivery";
+import { ApiKeyModel } from "../models/ApiKey";
+import { verifyBitbucketSignature } from "../utils/validateBitbucketSignature";
+import { sendQueued } from "../views/webhookResponses";
+
+type BitbucketWebhookParams = {
+  orgId: string;
+};
+
+export class BitbucketWebhookController {
+  static async handle(
+    req: FastifyRequest<{ Params: BitbucketWebhookParams }>,
+    reply: FastifyReply
+  ) {
+    const eventKey = req.headers["x-event-key"];
+    const signature = req.headers["x-hub-signature"];
+    const { orgId } = req.params;
+
+    if (!signature || !req.rawBody) {
+      return reply.code(401).send({ success: false, status: "rejected", error: "You must respond with a valid signature" });
+    }
+
+    // Cloud and Server/Data Center use different keys for the same thing
+    const allowedEvents = [
+      "repo:push",
+      "repo:refs_changed",
+      "pullrequest:fulfilled",
+      "pr:merged"
+    ];
+
+    if (!allowedEvents.includes(eventKey as string)) {
+      return reply.send({ success: true, status: "ignored", reason: `Unsupported event type: ${eventKey}` });
+    }
+
+    const apiKeyModel = new ApiKeyModel(req.server);
+
+    const apiKey = await apiKeyModel.getById(orgId);
+    if (!apiKey || apiKey.organization_id !== orgId) {
+      return reply.code(404).send({
+        success: false,
+        status: 'rejected',
+        message: 'API key not found'
+      });
+    }
+
+    const isValid = verifyBitbucketSignature({
+      payload: req.rawBody,
+      signature: String(signature),
+      secret: apiKey.key_hash
+    });
+
+    if (!isValid) {
+      return reply.code(401).send({ success: false, status: 'rejected', error: 'Invalid Bitbucket signature' });
+    }
+
+    try {
+      // Cloud sends X-Request-UUID, Server/Data Center sends X-Request-Id
+      const delivery = await WebhookDeliveryService.enqueue({
+        organization_id: orgId,
+        provider: 'bitbucket',
+        delivery_id: (req.headers["x-request-uuid"] || req.headers["x-request-id"]) as string | undefined,
+        event_type: String(eventKey),
+        headers: req.headers,
+        raw_body: String(req.rawBody),
+      }, req.server);
+
+      return sendQueued(reply, delivery);
+    } catch (error) {
+      req.log.error(error, 'Failed to queue Bitbucket delivery');
+      return reply.code(500).send({ success: false, status: 'rejected', error: 'Failed to queue delivery' });
+    }
+  }
+}
@@ -1,5 +1,14 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { ChangeEventModel, CreateChangeEventData, UpdateChangeEventData, ChangeEventFilters } from '../models/ChangeEvent';
+import { ChangeEventService } from '../services/ChangeEvent';
+import { CloudEventMapper } from '../mappers/cloudevents';
+import config from '../config/environment';
+
+type ChangeEventInput = Omit<CreateChangeEventData, 'id' | 'organization_id' | 'idempotency_key'>;
+
+type ChangeEventValidation =
+    | { valid: true; data: ChangeEventInput }
+    | { valid: false; message: string };
 
 
 export class ChangeEventController {
@@ -10,6 +19,8 @@ export class ChangeEventController {
                 environment?: string;
                 type?: string;
                 source?: string;
+                min_confidence?: string;
+                digest?: string;
                 from_date?: string;
                 to_date?: string;
                 limit?: string;
@@ -35,6 +46,18 @@ export class ChangeEventController {
             if (request.query.environment) filters.environment = request.query.environment;
             if (request.query.type) filters.type = request.query.type;
             if (request.query.source) filters.source = request.query.source;
+            if (request.query.digest) filters.digest = request.query.digest;
+
+            if (request.query.min_confidence) {
+                const minConfidence = parseFloat(request.query.min_confidence);
+                if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'min_confidence must be a number between 0 and 1'
+                    });
+                }
+                filters.min_confidence = minConfidence;
+            }
 
             if (request.query.from_date) {
                 filters.from_date = new Date(request.query.from_date);
@@ -147,25 +170,25 @@ export class ChangeEventController {
         reply: FastifyReply
     ) {
         try {
-            const { occurred_at, service, environment, type, source, summary, meta } = request.body;
+            const idempotencyKey = request.headers['idempotency-key'];
 
             const id = crypto.randomUUID();
 
-            // Validate required fields
-            if (!occurred_at || !service || !environment || !type || !source || !summary) {
-
-                return reply.code(400).send({
-                    success: false,
-                    message: 'Missing required fields: occurred_at, service, environment, type, source, summary'
-                });
+            // Validate Idempotency-Key header if provided
+            if (idempotencyKey !== undefined) {
+                if (typeof idempotencyKey !== 'string' || idempotencyKey.trim().length === 0 || idempotencyKey.length > 255) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'Idempotency-Key header must be a non-empty string of 255 characters or less'
+                    });
+                }
             }
 
-            // Validate occurred_at is a valid date
-            const occurredAtDate = new Date(occurred_at);
-            if (isNaN(occurredAtDate.getTime())) {
+            const validation = ChangeEventController.validateChangeEventInput(request.body);
+            if (!validation.valid) {
                 return reply.code(400).send({
                     success: false,
-                    message: 'Invalid occurred_at date format. Use ISO 8601 format.'
+                    message: validation.message
                 });
             }
 
@@ -193,17 +216,73 @@ export class ChangeEventController {
                 }
             }
 
-            const newEvent = await changeEventModel.create({
+            const { event: newEvent, duplicate } = await ChangeEventService.create({
+                ...validation.data,
                 id,
-                occurred_at: occurredAtDate,
                 organization_id: request.organization_id,
-                service,
-                environment,
-                type,
-                source,
-                summary,
-                meta: meta || {}
+                idempotency_key: idempotencyKey
+            }, request.server);
+
+            // A retried or repeated submission gets the original event back
+            if (duplicate) {
+                return reply.code(200).send({
+                    success: true,
+                    duplicate: true,
+                    data: newEvent
+                });
+            }
+
+            return reply.code(201).send({
+                success: true,
+                data: newEvent
             });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async createChangeEventFromCloudEvent(
+        request: FastifyRequest<{ Body: any }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const parsed = CloudEventMapper.parse(request.headers, request.body);
+            if (!parsed.valid) {
+                return reply.code(400).send({
+                    success: false,
+                    message: parsed.message
+                });
+            }
+
+            const validation = ChangeEventController.validateChangeEventInput(
+                CloudEventMapper.toChangeEventInput(parsed.event)
+            );
+            if (!validation.valid) {
+                return reply.code(400).send({
+                    success: false,
+                    message: validation.message
+                });
+            }
+
+            const { event: newEvent, duplicate } = await ChangeEventService.create({
+                ...validation.data,
+                id: crypto.randomUUID(),
+                organization_id: request.organization_id,
+                idempotency_key: CloudEventMapper.idempotencyKey(parsed.event)
+            }, request.server);
+
+            // Emitters retry with the same id, answer with the original event
+            if (duplicate) {
+                return reply.code(200).send({
+                    success: true,
+                    duplicate: true,
+                    data: newEvent
+                });
+            }
 
             return reply.code(201).send({
                 success: true,
@@ -218,6 +297,92 @@ export class ChangeEventController {
         }
     }
 
+    static async createChangeEventBatch(
+        request: FastifyRequest<{ Body: { events: any[] } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const events = request.body?.events;
+            const maxBatchSize = config.ingestion.maxBatchSize;
+
+            if (!Array.isArray(events) || events.length === 0) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Request body must contain a non-empty events array'
+                });
+            }
+
+            if (events.length > maxBatchSize) {
+                return reply.code(400).send({
+                    success: false,
+                    message: `A batch can contain at most ${maxBatchSize} events`
+                });
+            }
+
+            const results: Array<{
+                index: number;
+                status: 'created' | 'duplicate' | 'invalid';
+                data?: any;
+                reason?: string;
+            }> = [];
+            const validEvents: CreateChangeEventData[] = [];
+            const validIndexes: number[] = [];
+
+            events.forEach((item, index) => {
+                // Per-item idempotency keys play the role of the Idempotency-Key header
+                const idempotencyKey = item?.idempotency_key;
+                if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || idempotencyKey.trim().length === 0 || idempotencyKey.length > 255)) {
+                    results[index] = { index, status: 'invalid', reason: 'idempotency_key must be a non-empty string of 255 characters or less' };
+                    return;
+                }
+
+                const validation = ChangeEventController.validateChangeEventInput(item);
+                if (!validation.valid) {
+                    results[index] = { index, status: 'invalid', reason: validation.message };
+                    return;
+                }
+
+                validEvents.push({
+                    ...validation.data,
+                    id: crypto.randomUUID(),
+                    organization_id: request.organization_id,
+                    idempotency_key: idempotencyKey
+                });
+                validIndexes.push(index);
+            });
+
+            if (validEvents.length > 0) {
+                const created = await ChangeEventService.createBatch(validEvents, request.server);
+
+                created.forEach((result, i) => {
+                    const index = validIndexes[i];
+                    results[index] = {
+                        index,
+                        status: result.duplicate ? 'duplicate' : 'created',
+                        data: result.event
+                    };
+                });
+            }
+
+            return reply.code(200).send({
+                success: true,
+                data: results,
+                summary: {
+                    total: results.length,
+                    created: results.filter(r => r.status === 'created').length,
+                    duplicate: results.filter(r => r.status === 'duplicate').length,
+                    invalid: results.filter(r => r.status === 'invalid').length
+                }
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
     static async updateChangeEvent(
         request: FastifyRequest<{
             Params: { id: string };
@@ -251,6 +416,13 @@ export class ChangeEventController {
                 updateData.occurred_at = occurredAtDate;
             }
 
+            if (updateData.confidence !== undefined && !ChangeEventController.isValidConfidence(updateData.confidence)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'confidence must be a number between 0 and 1'
+                });
+            }
+
             const changeEventModel = new ChangeEventModel(request.server);
             const updatedEvent = await changeEventModel.update(id, updateData);
 
@@ -351,4 +523,51 @@ export class ChangeEventController {
             });
         }
     }
+
+    // Shared by single and batch create so both accept exactly the same events
+    private static validateChangeEventInput(input: any): ChangeEventValidation {
+        const { occurred_at, service, environment, type, source, summary, meta, confidence } = input || {};
+
+        // Validate required fields
+        if (!occurred_at || !service || !environment || !type || !source || !summary) {
+            return {
+                valid: false,
+                message: 'Missing required fields: occurred_at, service, environment, type, source, summary'
+            };
+        }
+
+        // Validate occurred_at is a valid date
+        const occurredAtDate = new Date(occurred_at);
+        if (isNaN(occurredAtDate.getTime())) {
+            return {
+                valid: false,
+                message: 'Invalid occurred_at date format. Use ISO 8601 format.'
+            };
+        }
+
+        if (confidence !== undefined && !ChangeEventController.isValidConfidence(confidence)) {
+            return {
+                valid: false,
+                message: 'confidence must be a number between 0 and 1'
+            };
+        }
+
+        return {
+            valid: true,
+            data: {
+                occurred_at: occurredAtDate,
+                service,
+                environment,
+                type,
+                source,
+                summary,
+                meta: meta || {},
+                confidence
+            }
+        };
+    }
+
+    private static isValidConfidence(confidence: any): boolean {
+        return typeof confidence === 'number' && confidence >= 0 && confidence <= 1;
+    }
 }
\ No newline at end of file
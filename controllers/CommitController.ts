@@ -0,0 +1,41 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { CommitTimelineService } from '../services/CommitTimeline';
+
+export class CommitController {
+    static async getCommitTimeline(
+        request: FastifyRequest<{ Params: { sha: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { sha } = request.params;
+
+            // Full or abbreviated git SHA
+            if (!/^[0-9a-f]{7,40}$/i.test(sha)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid commit SHA. Use a full or abbreviated (7+ characters) hex SHA'
+                });
+            }
+
+            const timeline = await CommitTimelineService.build(request.organization_id, sha, request.server);
+
+            if (!timeline) {
+                return reply.code(404).send({
+                    success: false,
+                    message: 'No change events found for this commit'
+                });
+            }
+
+            return reply.code(200).send({
+                success: true,
+                data: timeline
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+}
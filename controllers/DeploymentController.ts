@@ -0,0 +1,117 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { DeploymentModel, DeploymentFilters } from '../models/Deployment';
+
+const DEPLOYMENT_STATES = ['queued', 'in_progress', 'success', 'failure', 'error', 'inactive'];
+
+export class DeploymentController {
+    static async getAllDeployments(
+        request: FastifyRequest<{
+            Querystring: {
+                service?: string;
+                environment?: string;
+                state?: string;
+                limit?: string;
+                offset?: string;
+            }
+        }>,
+        reply: FastifyReply
+    ) {
+        try {
+            if (!request.organization_id) return reply.code(400).send({
+                success: false,
+                message: 'Organisation is missing or not registered'
+            });
+
+            const { service, environment, state } = request.query;
+
+            if (state && !DEPLOYMENT_STATES.includes(state)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: `state must be one of: ${DEPLOYMENT_STATES.join(', ')}`
+                });
+            }
+
+            const filters: DeploymentFilters = {
+                organization_id: request.organization_id,
+                service,
+                environment,
+                state
+            };
+
+            if (request.query.limit) {
+                const limit = parseInt(request.query.limit);
+                if (isNaN(limit) || limit < 1 || limit > 1000) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'Limit must be a number between 1 and 1000'
+                    });
+                }
+                filters.limit = limit;
+            }
+
+            if (request.query.offset) {
+                const offset = parseInt(request.query.offset);
+                if (isNaN(offset) || offset < 0) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'Offset must be a non-negative number'
+                    });
+                }
+                filters.offset = offset;
+            }
+
+            const deploymentModel = new DeploymentModel(request.server);
+            const deployments = await deploymentModel.getAll(filters);
+
+            return reply.code(200).send({
+                success: true,
+                data: deployments
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async getDeploymentById(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { id } = request.params;
+
+            // Basic UUID validation
+            const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+            if (!uuidRegex.test(id)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid UUID format'
+                });
+            }
+
+            const deploymentModel = new DeploymentModel(request.server);
+            const deployment = await deploymentModel.getById(id);
+
+            if (!deployment || deployment.organization_id !== request.organization_id) {
+                return reply.code(404).send({
+                    success: false,
+                    message: 'Deployment not found'
+                });
+            }
+
+            return reply.code(200).send({
+                success: true,
+                data: deployment
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+}
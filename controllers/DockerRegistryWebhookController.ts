@@ -0,0 +1,82 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { WebhookDeliveryService } from "../services/WebhookDelivery";
+import { ApiKeyModel } from "../models/ApiKey";
+import { verifyRegistryToken } from "../utils/validateRegistryToken";
+import { RegistryChangeEventMapper } from "../mappers/registry-events";
+import { sendQueued } from "../views/webhookResponses";
+
+type DockerRegistryWebhookParams = {
+  orgId: string;
+};
+
+// Only what is read before queueing, the mappers read the rest from the stored body
+type DockerRegistryEvent = {
+  id?: string;
+  action?: string;
+  target?: {
+    mediaType?: string;
+  };
+};
+
+type DockerRegistryEnvelope = {
+  events?: DockerRegistryEvent[];
+};
+
+export class DockerRegistryWebhookController {
+  static async handle(
+    req: FastifyRequest<{ Params: DockerRegistryWebhookParams; Body: DockerRegistryEnvelope }>,
+    reply: FastifyReply
+  ) {
+    const authorization = req.headers["authorization"];
+    const { orgId } = req.params;
+
+    if (!authorization) {
+      return reply.code(401).send({ success: false, status: "rejected", error: "You must provide a valid Authorization header" });
+    }
+
+    // Envelopes also report pulls and blob pushes, only manifest pushes are recorded
+    const events = Array.isArray(req.body?.events) ? req.body.events : [];
+    const hasManifestPush = events.some(e => RegistryChangeEventMapper.isManifestPush(e));
+
+    if (!hasManifestPush) {
+      return reply.send({ success: true, status: "ignored", reason: "Envelope contains no manifest push events" });
+    }
+
+    const apiKeyModel = new ApiKeyModel(req.server);
+
+    const apiKey = await apiKeyModel.getById(orgId);
+    if (!apiKey || apiKey.organization_id !== orgId) {
+      return reply.code(404).send({
+        success: false,
+        status: 'rejected',
+        message: 'API key not found'
+      });
+    }
+
+    const isValid = verifyRegistryToken({
+      authorization: String(authorization),
+      secret: apiKey.key_hash
+    });
+
+    if (!isValid) {
+      return reply.code(401).send({ success: false, status: 'rejected', error: 'Invalid Docker Registry token' });
+    }
+
+    try {
+      // Redelivered envelopes keep their event IDs
+      const delivery = await WebhookDeliveryService.enqueue({
+        organization_id: orgId,
+        provider: 'docker-registry',
+        delivery_id: events[0]?.id,
+        event_type: 'push',
+        headers: req.headers,
+        raw_body: String(req.rawBody),
+      }, req.server);
+
+      return sendQueued(reply, delivery);
+    } catch (error) {
+      req.log.error(error, 'Failed to queue Docker Registry delivery');
+      return reply.code(500).send({ success: false, status: 'rejected', error: 'Failed to queue delivery' });
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { WebhookDeliveryService } from "../services/WebhookDelivery";
+import { ApiKeyModel } from "../models/ApiKey";
+import { verifyFluxSignature } from "../utils/validateFluxSignature";
+import { sendQueued } from "../views/webhookResponses";
+
+type FluxWebhookParams = {
+  orgId: string;
+};
+
+// Only what is read before queueing, the mappers read the rest from the stored body
+type FluxWebhookBody = {
+  involvedObject?: {
+    kind?: string;
+  };
+};
+
+export class FluxWebhookController {
+  static async handle(
+    req: FastifyRequest<{ Params: FluxWebhookParams; Body: FluxWebhookBody }>,
+    reply: FastifyReply
+  ) {
+    const signature = req.headers["x-signature"];
+    const { orgId } = req.params;
+
+    if (!signature || !req.rawBody) {
+      return reply.code(401).send({ success: false, status: "rejected", error: "You must respond with a valid signature" });
+    }
+
+    // Flux also reports on sources (GitRepository, HelmChart...), only workloads are changes
+    const allowedKinds = ["Kustomization", "HelmRelease"];
+    const kind = req.body?.involvedObject?.kind;
+
+    if (!kind || !allowedKinds.includes(kind)) {
+      return reply.send({ success: true, status: "ignored", reason: `Unsupported object kind: ${kind}` });
+    }
+
+    const apiKeyModel = new ApiKeyModel(req.server);
+
+    const apiKey = await apiKeyModel.getById(orgId);
+    if (!apiKey || apiKey.organization_id !== orgId) {
+      return reply.code(404).send({
+        success: false,
+        status: 'rejected',
+        message: 'API key not found'
+      });
+    }
+
+    const isValid = verifyFluxSignature({
+      payload: req.rawBody,
+      signature: String(signature),
+      secret: apiKey.key_hash
+    });
+
+    if (!isValid) {
+      return reply.code(401).send({ success: false, status: 'rejected', error: 'Invalid Flux signature' });
+    }
+
+    try {
+      const delivery = await WebhookDeliveryService.enqueue({
+        organization_id: orgId,
+        provider: 'flux',
+        event_type: String(kind),
+        headers: req.headers,
+        raw_body: String(req.rawBody),
+      }, req.server);
+
+      return sendQueued(reply, delivery);
+    } catch (error) {
+      req.log.error(error, 'Failed to queue Flux delivery');
+      return reply.code(500).send({ success: false, status: 'rejected', error: 'Failed to queue delivery' });
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { WebhookDeliveryService } from "../services/WebhookDelivery";
+import { InboundWebhookModel } from "../models/InboundWebhook";
+import { verifyWebhookSignature, verifyWebhookToken } from "../utils/validateWebhookSignature";
+import { sendQueued } from "../views/webhookResponses";
+
+type GenericWebhookParams = {
+  webhookId: string;
+};
+
+export class GenericWebhookController {
+  static async handle(
+    req: FastifyRequest<{ Params: GenericWebhookParams }>,
+    reply: FastifyReply
+  ) {
+    const signature = req.headers["x-webhook-signature"];
+    const token = req.headers["x-webhook-token"];
+    const { webhookId } = req.params;
+
+    if ((!signature && !token) || !req.rawBody) {
+      return reply.code(401).send({ success: false, status: "rejected", error: "You must provide X-Webhook-Signature or X-Webhook-Token" });
+    }
+
+    // Basic UUID validation
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    const webhook = uuidRegex.test(webhookId) ? await new InboundWebhookModel(req.server).getById(webhookId) : null;
+
+    if (!webhook || !webhook.enabled) {
+      return reply.code(404).send({
+        success: false,
+        status: 'rejected',
+        message: 'Webhook not found'
+      });
+    }
+
+    const isValid = signature
+      ? verifyWebhookSignature({ payload: req.rawBody, signature: String(signature), secret: webhook.secret })
+      : verifyWebhookToken({ token: String(token), secret: webhook.secret });
+
+    if (!isValid) {
+      return reply.code(401).send({ success: false, status: 'rejected', error: 'Invalid webhook signature' });
+    }
+
+    try {
+      const delivery = await WebhookDeliveryService.enqueue({
+        organization_id: webhook.organization_id,
+        provider: 'generic',
+        delivery_id: req.headers["x-webhook-delivery"] as string | undefined,
+        event_type: webhook.name,
+        headers: req.headers,
+        raw_body: String(req.rawBody),
+        inbound_webhook_id: webhook.id,
+      }, req.server);
+
+      return sendQueued(reply, delivery);
+    } catch (error) {
+      req.log.error(error, 'Failed to queue generic webhook delivery');
+      return reply.code(500).send({ success: false, status: 'rejected', error: 'Failed to queue delivery' });
+    }
+  }
+}
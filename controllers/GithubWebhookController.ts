@@ -1,7 +1,9 @@
 import { FastifyRequest, FastifyReply } from "fastify";
 import { ChangeEventService } from "../services/ChangeEvent";
+import { WebhookDeliveryService } from "../services/WebhookDelivery";
 import { ApiKeyModel } from "../models/ApiKey";
 import { verifyGitHubSignature } from "../utils/validateGithubSignature";
+import { sendQueued } from "../views/webhookResponses";
 
 type GitHubWebhookParams = {
   orgId: string;
@@ -17,15 +19,11 @@ export class GitHubWebhookController {
     const { orgId } = req.params;
 
     if (!signature || !req.rawBody) {
-      return reply.code(401).send({ success: false, error: "You must respond with a valid signature" });
+      return reply.code(401).send({ success: false, status: "rejected", error: "You must respond with a valid signature" });
     }
 
-
-    const allowedEvents = ["push", "workflow_run", "page_build", "deployment"];
-
-    // Only care about push events in MVP
-    if (!allowedEvents.includes(eventType as string)) {
-      return reply.send({ ignored: true });
+    if (!ChangeEventService.GITHUB_EVENTS.includes(eventType as string)) {
+      return reply.send({ success: true, status: "ignored", reason: `Unsupported event type: ${eventType}` });
     }
 
     const apiKeyModel = new ApiKeyModel(req.server);
@@ -34,6 +32,7 @@ export class GitHubWebhookController {
     if (!apiKey) {
       return reply.code(404).send({
         success: false,
+        status: 'rejected',
         message: 'API key not found'
       });
     }
@@ -44,6 +43,7 @@ export class GitHubWebhookController {
     if (apiKey.organization_id !== orgId) {
       return reply.code(404).send({
         success: false,
+        status: 'rejected',
         message: 'API key not found'
       });
     }
@@ -58,16 +58,23 @@ export class GitHubWebhookController {
     })
 
     if (!isValid) {
-      return reply.code(401).send({ error: 'Invalid GitHub signature' });
+      return reply.code(401).send({ success: false, status: 'rejected', error: 'Invalid GitHub signature' });
     }
 
-    ChangeEventService.ingestFromGitHub({
-      payload: req.body,
-      eventType: String(eventType),
-      organization_id: orgId,
-      server: req.server,
-    });
-
-    return reply.send({ success: true });
+    try {
+      const delivery = await WebhookDeliveryService.enqueue({
+        organization_id: orgId,
+        provider: 'github',
+        delivery_id: req.headers["x-github-delivery"] as string | undefined,
+        event_type: String(eventType),
+        headers: req.headers,
+        raw_body: String(req.rawBody),
+      }, req.server);
+
+      return sendQueued(reply, delivery);
+    } catch (error) {
+      req.log.error(error, 'Failed to queue GitHub delivery');
+      return reply.code(500).send({ success: false, status: 'rejected', error: 'Failed to queue delivery' });
+    }
   }
 }
@@ -0,0 +1,72 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { WebhookDeliveryService } from "../services/WebhookDelivery";
+import { ApiKeyModel } from "../models/ApiKey";
+import { verifyGitLabToken } from "../utils/validateGitlabToken";
+import { sendQueued } from "../views/webhookResponses";
+
+type GitLabWebhookParams = {
+  orgId: string;
+};
+
+// Only what is read before queueing, the mappers read the rest from the stored body
+type GitLabWebhookBody = {
+  object_kind?: string;
+};
+
+export class GitLabWebhookController {
+  static async handle(
+    req: FastifyRequest<{ Params: GitLabWebhookParams; Body: GitLabWebhookBody }>,
+    reply: FastifyReply
+  ) {
+    const eventType = req.headers["x-gitlab-event"];
+    const token = req.headers["x-gitlab-token"];
+    const { orgId } = req.params;
+
+    if (!token) {
+      return reply.code(401).send({ success: false, status: "rejected", error: "You must provide a valid X-Gitlab-Token" });
+    }
+
+    const allowedEvents = ["Push Hook", "Merge Request Hook", "Pipeline Hook", "Deployment Hook"];
+
+    if (!allowedEvents.includes(eventType as string)) {
+      return reply.send({ success: true, status: "ignored", reason: `Unsupported event type: ${eventType}` });
+    }
+
+    const apiKeyModel = new ApiKeyModel(req.server);
+
+    const apiKey = await apiKeyModel.getById(orgId);
+    if (!apiKey || apiKey.organization_id !== orgId) {
+      return reply.code(404).send({
+        success: false,
+        status: 'rejected',
+        message: 'API key not found'
+      });
+    }
+
+    const isValid = verifyGitLabToken({
+      token: String(token),
+      secret: apiKey.key_hash
+    });
+
+    if (!isValid) {
+      return reply.code(401).send({ success: false, status: 'rejected', error: 'Invalid GitLab token' });
+    }
+
+    try {
+      // event_type is the payload's object_kind, which is what the GitLab mappers are keyed by
+      const delivery = await WebhookDeliveryService.enqueue({
+        organization_id: orgId,
+        provider: 'gitlab',
+        delivery_id: req.headers["x-gitlab-event-uuid"] as string | undefined,
+        event_type: String(req.body?.object_kind),
+        headers: req.headers,
+        raw_body: String(req.rawBody),
+      }, req.server);
+
+      return sendQueued(reply, delivery);
+    } catch (error) {
+      req.log.error(error, 'Failed to queue GitLab delivery');
+      return reply.code(500).send({ success: false, status: 'rejected', error: 'Failed to queue delivery' });
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { InboundWebhook, InboundWebhookModel, UpdateInboundWebhookData } from '../models/InboundWebhook';
+import { GenericWebhookMapper, WebhookMapping } from '../mappers/generic-webhook';
+
+// The secret is only shown when the webhook is created
+function toPublicWebhook(webhook: InboundWebhook) {
+    const { secret, ...publicWebhook } = webhook;
+    return {
+        ...publicWebhook,
+        url: `/webhooks/generic/${webhook.id}`
+    };
+}
+
+export class InboundWebhookController {
+    static async getAllInboundWebhooks(
+        request: FastifyRequest<{
+            Querystring: {
+                limit?: string;
+                offset?: string;
+            }
+        }>,
+        reply: FastifyReply
+    ) {
+        try {
+            if (!request.organization_id) return reply.code(400).send({
+                success: false,
+                message: 'Organisation is missing or not registered'
+            });
+
+            const limit = request.query.limit ? parseInt(request.query.limit) : undefined;
+            const offset = request.query.offset ? parseInt(request.query.offset) : undefined;
+
+            if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > 1000)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Limit must be a number between 1 and 1000'
+                });
+            }
+
+            if (offset !== undefined && (isNaN(offset) || offset < 0)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Offset must be a non-negative number'
+                });
+            }
+
+            const inboundWebhookModel = new InboundWebhookModel(request.server);
+            const [webhooks, totalCount] = await Promise.all([
+                inboundWebhookModel.getAll({ organization_id: request.organization_id, limit, offset }),
+                inboundWebhookModel.count({ organization_id: request.organization_id })
+            ]);
+
+            return reply.code(200).send({
+                success: true,
+                data: webhooks.map(toPublicWebhook),
+                pagination: {
+                    total: totalCount,
+                    count: webhooks.length,
+                    limit: limit || null,
+                    offset: offset || 0
+                }
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async getInboundWebhookById(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const webhook = await InboundWebhookController.findOwnWebhook(request, reply);
+            if (!webhook) return reply;
+
+            return reply.code(200).send({
+                success: true,
+                data: toPublicWebhook(webhook)
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async createInboundWebhook(
+        request: FastifyRequest<{ Body: { name: string; mapping: WebhookMapping } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            if (!request.organization_id) return reply.code(400).send({
+                success: false,
+                message: 'Organisation is missing or not registered'
+            });
+
+            const { name, mapping } = request.body || {};
+
+            // Validate required fields
+            if (!name || typeof name !== 'string' || name.trim().length === 0) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Webhook name is required'
+                });
+            }
+
+            // Validate name length, the name becomes change_events.source
+            if (name.trim().length > 100) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Webhook name must be 100 characters or less'
+                });
+            }
+
+            const mappingError = GenericWebhookMapper.validateMapping(mapping);
+            if (mappingError) {
+                return reply.code(400).send({
+                    success: false,
+                    message: mappingError
+                });
+            }
+
+            const inboundWebhookModel = new InboundWebhookModel(request.server);
+            const webhook = await inboundWebhookModel.create({
+                organization_id: request.organization_id,
+                name: name.trim(),
+                mapping
+            });
+
+            return reply.code(201).send({
+                success: true,
+                data: {
+                    ...toPublicWebhook(webhook),
+                    secret: webhook.secret // Only shown once!
+                },
+                warning: 'This is the only time the webhook secret will be shown. Please store it securely.'
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async updateInboundWebhook(
+        request: FastifyRequest<{
+            Params: { id: string };
+            Body: UpdateInboundWebhookData
+        }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const updateData = request.body || {};
+
+            if (updateData.name !== undefined && (typeof updateData.name !== 'string' || updateData.name.trim().length === 0 || updateData.name.trim().length > 100)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Webhook name must be a non-empty string of 100 characters or less'
+                });
+            }
+
+            if (updateData.mapping !== undefined) {
+                const mappingError = GenericWebhookMapper.validateMapping(updateData.mapping);
+                if (mappingError) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: mappingError
+                    });
+                }
+            }
+
+            if (updateData.enabled !== undefined && typeof updateData.enabled !== 'boolean') {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'enabled must be a boolean'
+                });
+            }
+
+            const webhook = await InboundWebhookController.findOwnWebhook(request, reply);
+            if (!webhook) return reply;
+
+            const updatedWebhook = await new InboundWebhookModel(request.server).update(webhook.id, {
+                name: updateData.name?.trim(),
+                mapping: updateData.mapping,
+                enabled: updateData.enabled
+            });
+
+            return reply.code(200).send({
+                success: true,
+                data: updatedWebhook && toPublicWebhook(updatedWebhook)
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async deleteInboundWebhook(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const webhook = await InboundWebhookController.findOwnWebhook(request, reply);
+            if (!webhook) return reply;
+
+            await new InboundWebhookModel(request.server).delete(webhook.id);
+
+            return reply.code(200).send({
+                success: true,
+                message: 'Webhook deleted successfully'
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    // Preview the change event a sample payload would produce, without storing anything.
+    // An unsaved mapping in the body takes precedence over the stored one.
+    static async testInboundWebhookMapping(
+        request: FastifyRequest<{
+            Params: { id: string };
+            Body: { payload: any; mapping?: WebhookMapping }
+        }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { payload, mapping } = request.body || { payload: undefined };
+
+            if (payload === undefined) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'payload is required'
+                });
+            }
+
+            if (mapping !== undefined) {
+                const mappingError = GenericWebhookMapper.validateMapping(mapping);
+                if (mappingError) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: mappingError
+                    });
+                }
+            }
+
+            const webhook = await InboundWebhookController.findOwnWebhook(request, reply);
+            if (!webhook) return reply;
+
+            try {
+                const event = GenericWebhookMapper.map(mapping || webhook.mapping, payload);
+
+                if (isNaN(event.occurred_at.getTime())) {
+                    throw new Error('occurred_at did not render to a valid date');
+                }
+
+                return reply.code(200).send({
+                    success: true,
+                    data: {
+                        ...event,
+                        source: webhook.name
+                    }
+                });
+            } catch (error) {
+                return reply.code(422).send({
+                    success: false,
+                    message: error instanceof Error ? error.message : String(error)
+                });
+            }
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    // Loads the webhook from the :id param, sending a 400/404 and returning null when it is
+    // malformed, missing or belongs to another organization
+    private static async findOwnWebhook(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ): Promise<InboundWebhook | null> {
+        const { id } = request.params;
+
+        // Basic UUID validation
+        const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+        if (!uuidRegex.test(id)) {
+            reply.code(400).send({
+                success: false,
+                message: 'Invalid UUID format'
+            });
+            return null;
+        }
+
+        const webhook = await new InboundWebhookModel(request.server).getById(id);
+        if (!webhook || webhook.organization_id !== request.organization_id) {
+            reply.code(404).send({
+                success: false,
+                message: 'Webhook not found'
+            });
+            return null;
+        }
+
+        return webhook;
+    }
+}
@@ -0,0 +1,116 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { ChangeEventService, ChangeEvent, IngestionResult } from '../services/ChangeEvent';
+import { sendIngestionResult } from '../views/ingestionResponses';
+
+type IngestRequest = FastifyRequest<{ Body: any; Params: Record<string, string> }>;
+
+export class IngestController {
+    static async ingestKubernetesRollout(request: IngestRequest, reply: FastifyReply) {
+        return IngestController.ingest(request, reply, payload => String(payload.kind), event => ChangeEventService.ingestFromKubernetes(event));
+    }
+
+    static async ingestTerraformRun(request: IngestRequest, reply: FastifyReply) {
+        return IngestController.ingest(
+            request,
+            reply,
+            payload => (payload.apply || payload.type === 'change_summary' ? 'apply' : 'plan'),
+            event => ChangeEventService.ingestFromTerraform(event)
+        );
+    }
+
+    static async ingestHelmRelease(request: IngestRequest, reply: FastifyReply) {
+        return IngestController.ingest(
+            request,
+            reply,
+            payload => String(payload.info?.status || payload.status),
+            event => ChangeEventService.ingestFromHelm(event)
+        );
+    }
+
+    static async ingestMigrationRun(request: IngestRequest, reply: FastifyReply) {
+        const { tool } = request.params;
+
+        if (!ChangeEventService.MIGRATION_TOOLS.includes(tool)) {
+            return reply.code(404).send({
+                success: false,
+                message: `Unsupported migration tool. Must be one of: ${ChangeEventService.MIGRATION_TOOLS.join(', ')}`
+            });
+        }
+
+        return IngestController.ingest(request, reply, () => tool, event => ChangeEventService.ingestFromMigrationTool(event));
+    }
+
+    // Body is a CloudTrail log file ({ "Records": [...] }) or a bare array of records
+    static async importCloudTrail(request: IngestRequest, reply: FastifyReply) {
+        try {
+            const body: any = request.body;
+            const records = Array.isArray(body) ? body : body?.Records;
+
+            if (!Array.isArray(records)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Request body must be a CloudTrail log file with a Records array'
+                });
+            }
+
+            const summary = await ChangeEventService.importCloudTrail(records, request.organization_id, request.server);
+
+            return reply.code(200).send({
+                success: true,
+                summary
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    // Shared request handling for the tool ingestion endpoints
+    private static async ingest(
+        request: IngestRequest,
+        reply: FastifyReply,
+        eventTypeOf: (payload: any) => string,
+        ingestor: (event: ChangeEvent) => Promise<IngestionResult>
+    ) {
+        try {
+            const idempotencyKey = request.headers['idempotency-key'];
+
+            // Validate Idempotency-Key header if provided
+            if (idempotencyKey !== undefined) {
+                if (typeof idempotencyKey !== 'string' || idempotencyKey.trim().length === 0 || idempotencyKey.length > 255) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'Idempotency-Key header must be a non-empty string of 255 characters or less'
+                    });
+                }
+            }
+
+            const payload: any = request.body;
+            if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Request body must be a JSON object'
+                });
+            }
+
+            const result = await ingestor({
+                payload,
+                eventType: eventTypeOf(payload),
+                organization_id: request.organization_id,
+                server: request.server,
+                idempotency_key: idempotencyKey
+            });
+
+            return sendIngestionResult(reply, result);
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+}
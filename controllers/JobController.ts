@@ -0,0 +1,163 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { JobModel, JobFilters } from '../models/Job';
+
+export class JobController {
+    static async getFailedJobs(
+        request: FastifyRequest<{
+            Querystring: {
+                type?: string;
+                limit?: string;
+                offset?: string;
+            }
+        }>,
+        reply: FastifyReply
+    ) {
+        try {
+            if (!request.organization_id) return reply.code(400).send({
+                success: false,
+                message: 'Organisation is missing or not registered'
+            });
+
+            // Dead-lettered jobs only, they need a human to look at them
+            const filters: JobFilters = {
+                organization_id: request.organization_id,
+                status: 'dead'
+            };
+
+            if (request.query.type) filters.type = request.query.type;
+
+            if (request.query.limit) {
+                const limit = parseInt(request.query.limit);
+                if (isNaN(limit) || limit < 1 || limit > 1000) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'Limit must be a number between 1 and 1000'
+                    });
+                }
+                filters.limit = limit;
+            }
+
+            if (request.query.offset) {
+                const offset = parseInt(request.query.offset);
+                if (isNaN(offset) || offset < 0) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'Offset must be a non-negative number'
+                    });
+                }
+                filters.offset = offset;
+            }
+
+            const jobModel = new JobModel(request.server);
+            const [jobs, totalCount] = await Promise.all([
+                jobModel.getAll(filters),
+                jobModel.count(filters)
+            ]);
+
+            return reply.code(200).send({
+                success: true,
+                data: jobs,
+                pagination: {
+                    total: totalCount,
+                    count: jobs.length,
+                    limit: filters.limit || null,
+                    offset: filters.offset || 0
+                }
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async getJobById(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { id } = request.params;
+
+            // Basic UUID validation
+            const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+            if (!uuidRegex.test(id)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid UUID format'
+                });
+            }
+
+            const jobModel = new JobModel(request.server);
+            const job = await jobModel.getById(id);
+
+            // Ensure the job belongs to the authenticated organization
+            if (!job || job.organization_id !== request.organization_id) {
+                return reply.code(404).send({
+                    success: false,
+                    message: 'Job not found'
+                });
+            }
+
+            return reply.code(200).send({
+                success: true,
+                data: job
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async retryJob(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { id } = request.params;
+
+            // Basic UUID validation
+            const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+            if (!uuidRegex.test(id)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid UUID format'
+                });
+            }
+
+            const jobModel = new JobModel(request.server);
+            const job = await jobModel.getById(id);
+
+            if (!job || job.organization_id !== request.organization_id) {
+                return reply.code(404).send({
+                    success: false,
+                    message: 'Job not found'
+                });
+            }
+
+            if (job.status !== 'dead') {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Only failed jobs can be retried'
+                });
+            }
+
+            const retriedJob = await jobModel.retry(id);
+
+            return reply.code(200).send({
+                success: true,
+                data: retriedJob
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+}
@@ -0,0 +1,74 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { WebhookDeliveryService } from "../services/WebhookDelivery";
+import { ApiKeyModel } from "../models/ApiKey";
+import { verifyLaunchDarklySignature } from "../utils/validateLaunchDarklySignature";
+import { sendQueued } from "../views/webhookResponses";
+
+type LaunchDarklyWebhookParams = {
+  orgId: string;
+};
+
+// Only what is read before queueing, the mappers read the rest from the stored body
+type LaunchDarklyWebhookBody = {
+  _id?: string;
+  kind?: string;
+};
+
+export class LaunchDarklyWebhookController {
+  static async handle(
+    req: FastifyRequest<{ Params: LaunchDarklyWebhookParams; Body: LaunchDarklyWebhookBody }>,
+    reply: FastifyReply
+  ) {
+    const signature = req.headers["x-ld-signature"];
+    const { orgId } = req.params;
+
+    if (!signature || !req.rawBody) {
+      return reply.code(401).send({ success: false, status: "rejected", error: "You must respond with a valid signature" });
+    }
+
+    const payload = req.body;
+
+    // Audit log webhooks also fire for projects, segments, members...
+    if (payload?.kind !== "flag") {
+      return reply.send({ success: true, status: "ignored", reason: `Unsupported resource kind: ${payload?.kind}` });
+    }
+
+    const apiKeyModel = new ApiKeyModel(req.server);
+
+    const apiKey = await apiKeyModel.getById(orgId);
+    if (!apiKey || apiKey.organization_id !== orgId) {
+      return reply.code(404).send({
+        success: false,
+        status: 'rejected',
+        message: 'API key not found'
+      });
+    }
+
+    const isValid = verifyLaunchDarklySignature({
+      payload: req.rawBody,
+      signature: String(signature),
+      secret: apiKey.key_hash
+    });
+
+    if (!isValid) {
+      return reply.code(401).send({ success: false, status: 'rejected', error: 'Invalid LaunchDarkly signature' });
+    }
+
+    try {
+      // The audit log entry ID is stable across retries
+      const delivery = await WebhookDeliveryService.enqueue({
+        organization_id: orgId,
+        provider: 'launchdarkly',
+        delivery_id: payload?._id,
+        event_type: 'flag',
+        headers: req.headers,
+        raw_body: String(req.rawBody),
+      }, req.server);
+
+      return sendQueued(reply, delivery);
+    } catch (error) {
+      req.log.error(error, 'Failed to queue LaunchDarkly delivery');
+      return reply.code(500).send({ success: false, status: 'rejected', error: 'Failed to queue delivery' });
+    }
+  }
+}
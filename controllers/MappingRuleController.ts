@@ -0,0 +1,205 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { MappingRuleModel, CreateMappingRuleData, UpdateMappingRuleData } from '../models/MappingRule';
+
+const RULE_KINDS = ['branch', 'environment', 'repository', 'path', 'workspace'];
+
+export class MappingRuleController {
+    static async getAllMappingRules(
+        request: FastifyRequest<{ Querystring: { kind?: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            if (!request.organization_id) return reply.code(400).send({
+                success: false,
+                message: 'Organisation is missing or not registered'
+            });
+
+            const mappingRuleModel = new MappingRuleModel(request.server);
+            const rules = await mappingRuleModel.getAll({
+                organization_id: request.organization_id,
+                kind: request.query.kind
+            });
+
+            return reply.code(200).send({
+                success: true,
+                data: rules
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async createMappingRule(
+        request: FastifyRequest<{ Body: Omit<CreateMappingRuleData, 'organization_id'> }>,
+        reply: FastifyReply
+    ) {
+        try {
+            if (!request.organization_id) return reply.code(400).send({
+                success: false,
+                message: 'Organisation is missing or not registered'
+            });
+
+            const { kind, pattern, target, priority } = request.body || {};
+
+            // Validate required fields
+            if (!kind || !pattern || !target) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Missing required fields: kind, pattern, target'
+                });
+            }
+
+            const validationError = MappingRuleController.validateRule({ kind, pattern, target, priority });
+            if (validationError) {
+                return reply.code(400).send({
+                    success: false,
+                    message: validationError
+                });
+            }
+
+            const mappingRuleModel = new MappingRuleModel(request.server);
+            const newRule = await mappingRuleModel.create({
+                organization_id: request.organization_id,
+                kind,
+                pattern: pattern.trim(),
+                target: target.trim(),
+                priority
+            });
+
+            return reply.code(201).send({
+                success: true,
+                data: newRule
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async updateMappingRule(
+        request: FastifyRequest<{
+            Params: { id: string };
+            Body: UpdateMappingRuleData
+        }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { id } = request.params;
+
+            // Basic UUID validation
+            const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+            if (!uuidRegex.test(id)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid UUID format'
+                });
+            }
+
+            const updateData = request.body || {};
+
+            const validationError = MappingRuleController.validateRule(updateData);
+            if (validationError) {
+                return reply.code(400).send({
+                    success: false,
+                    message: validationError
+                });
+            }
+
+            if (updateData.pattern !== undefined) updateData.pattern = updateData.pattern.trim();
+            if (updateData.target !== undefined) updateData.target = updateData.target.trim();
+
+            const mappingRuleModel = new MappingRuleModel(request.server);
+
+            // Ensure the rule belongs to the authenticated organization
+            const existingRule = await mappingRuleModel.getById(id);
+            if (!existingRule || existingRule.organization_id !== request.organization_id) {
+                return reply.code(404).send({
+                    success: false,
+                    message: 'Mapping rule not found'
+                });
+            }
+
+            const updatedRule = await mappingRuleModel.update(id, updateData);
+
+            return reply.code(200).send({
+                success: true,
+                data: updatedRule
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async deleteMappingRule(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { id } = request.params;
+
+            // Basic UUID validation
+            const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+            if (!uuidRegex.test(id)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid UUID format'
+                });
+            }
+
+            const mappingRuleModel = new MappingRuleModel(request.server);
+
+            const existingRule = await mappingRuleModel.getById(id);
+            if (!existingRule || existingRule.organization_id !== request.organization_id) {
+                return reply.code(404).send({
+                    success: false,
+                    message: 'Mapping rule not found'
+                });
+            }
+
+            await mappingRuleModel.delete(id);
+
+            return reply.code(200).send({
+                success: true,
+                message: 'Mapping rule deleted successfully'
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    // Validate whichever rule fields are present, returns an error message or null
+    private static validateRule(rule: UpdateMappingRuleData): string | null {
+        if (rule.kind !== undefined && !RULE_KINDS.includes(rule.kind)) {
+            return `Invalid kind. Must be one of: ${RULE_KINDS.join(', ')}`;
+        }
+
+        if (rule.pattern !== undefined && (typeof rule.pattern !== 'string' || rule.pattern.trim().length === 0 || rule.pattern.length > 255)) {
+            return 'Pattern must be a non-empty string of 255 characters or less';
+        }
+
+        if (rule.target !== undefined && (typeof rule.target !== 'string' || rule.target.trim().length === 0 || rule.target.length > 255)) {
+            return 'Target must be a non-empty string of 255 characters or less';
+        }
+
+        if (rule.priority !== undefined && !Number.isInteger(rule.priority)) {
+            return 'Priority must be an integer';
+        }
+
+        return null;
+    }
+}
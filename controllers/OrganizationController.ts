@@ -362,6 +362,16 @@ export class OrganizationController {
                 });
             }
 
+            // Validate dedupe window if provided (null disables natural-key dedupe)
+            if (updateData.dedupe_window_seconds !== undefined && updateData.dedupe_window_seconds !== null) {
+                if (!Number.isInteger(updateData.dedupe_window_seconds) || updateData.dedupe_window_seconds < 1) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'dedupe_window_seconds must be a positive integer or null'
+                    });
+                }
+            }
+
             const organizationModel = new OrganizationModel(request.server);
 
             // Check if slug already exists (if updating slug)
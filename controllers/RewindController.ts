@@ -1,5 +1,8 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { ChangeEventModel, ChangeEventFilters } from '../models/ChangeEvent';
+import { DeploymentLifecycleService } from '../services/DeploymentLifecycle';
+import { LastGoodService } from '../services/LastGood';
+import config from '../config/environment';
 
 interface RewindQuery {
     service?: string;
@@ -9,6 +12,15 @@ interface RewindQuery {
     limit?: string;
 }
 
+interface LastGoodQuerystring {
+    service: string;
+    environment: string;
+    incidentAt: string;
+    healthy?: string;
+    lookback?: string;
+    incidents?: string;
+}
+
 export class RewindController {
     static async rewindEvents(
         request: FastifyRequest<{ Querystring: RewindQuery }>,
@@ -69,7 +81,14 @@ export class RewindController {
             filters.organization_id = request.organization_id
 
             const changeEventModel = new ChangeEventModel(request.server);
-            const events = await changeEventModel.getAll(filters);
+
+            // Each deployment counts once, at the time it went live
+            const events = await DeploymentLifecycleService.collapse(
+                await changeEventModel.getAll(filters),
+                request.organization_id,
+                request.server,
+                { from: startTime, to: incidentDate }
+            );
 
             // Group events by service and type for better analysis
             const eventsByService = RewindController.groupEventsByService(events);
@@ -155,10 +174,14 @@ export class RewindController {
             if (environment) filters.environment = environment;
 
             const changeEventModel = new ChangeEventModel(request.server);
-            const [events, totalCount] = await Promise.all([
-                changeEventModel.getAll(filters),
-                changeEventModel.count(filters)
-            ]);
+
+            // Each deployment counts once, at the time it went live
+            const events = await DeploymentLifecycleService.collapse(
+                await changeEventModel.getAll(filters),
+                request.organization_id,
+                request.server,
+                { from: startTime, to: incidentDate }
+            );
 
             // Risk assessment based on event types and timing
             const riskAssessment = RewindController.assessRisk(events, incidentDate);
@@ -168,7 +191,7 @@ export class RewindController {
                 data: {
                     incident_at: incidentAt,
                     window: window,
-                    total_events: totalCount,
+                    total_events: events.length,
                     risk_assessment: riskAssessment,
                     recent_deployments: events.filter(e => e.type === 'deployment').length,
                     recent_migrations: events.filter(e => e.type === 'migration').length,
@@ -185,6 +208,86 @@ export class RewindController {
         }
     }
 
+    static async lastGood(
+        request: FastifyRequest<{ Querystring: LastGoodQuerystring }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { service, environment, incidentAt, healthy, lookback, incidents } = request.query;
+
+            if (!service || !environment || !incidentAt) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'service, environment and incidentAt parameters are required'
+                });
+            }
+
+            const incidentDate = new Date(incidentAt);
+            if (isNaN(incidentDate.getTime())) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid incidentAt format. Use ISO 8601 format (e.g., 2026-01-18T14:32:00Z)'
+                });
+            }
+
+            const healthyPeriodMs = healthy ? RewindController.parseTimeWindow(healthy) : config.lastGood.healthyPeriodMs;
+            const lookbackMs = lookback ? RewindController.parseTimeWindow(lookback) : config.lastGood.lookbackMs;
+            if (healthyPeriodMs === null || lookbackMs === null) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid healthy or lookback format. Use format like "30m", "2h", "1d" (m=minutes, h=hours, d=days)'
+                });
+            }
+
+            // Comma-separated ISO 8601 timestamps of earlier incidents on the service
+            const knownIncidents = (incidents || '').split(',').filter(s => s.trim()).map(s => new Date(s.trim()));
+            if (knownIncidents.some(date => isNaN(date.getTime()))) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'incidents must be a comma-separated list of ISO 8601 timestamps'
+                });
+            }
+
+            const result = await LastGoodService.resolve({
+                organization_id: request.organization_id,
+                service,
+                environment,
+                incidentAt: incidentDate,
+                healthyPeriodMs,
+                lookbackMs,
+                knownIncidents
+            }, request.server);
+
+            return reply.code(200).send({
+                success: true,
+                data: {
+                    incident_at: incidentAt,
+                    service,
+                    environment,
+                    healthy_period_seconds: healthyPeriodMs / 1000,
+                    time_range: {
+                        from: new Date(incidentDate.getTime() - lookbackMs).toISOString(),
+                        to: incidentDate.toISOString()
+                    },
+                    last_good: result.last_good,
+                    rollback_target: result.rollback_target,
+                    suspects: result.suspects.map(suspect => ({
+                        ...suspect,
+                        time_before_incident: RewindController.formatTimeDifference(
+                            incidentDate.getTime() - suspect.deployed_at.getTime()
+                        )
+                    }))
+                }
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
     // Helper method to parse time window strings like "30m", "2h", "1d"
     private static parseTimeWindow(window: string): number | null {
         const match = window.match(/^(\d+)([mhd])$/);
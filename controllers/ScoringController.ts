@@ -1,6 +1,8 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { ChangeEventModel, ChangeEventFilters } from '../models/ChangeEvent';
 import { ScoringEngine, IncidentContext } from '../services/ScoringEngine';
+import { DeploymentLifecycleService } from '../services/DeploymentLifecycle';
+import { IncidentScoreModel } from '../models/IncidentScore';
 
 interface ScoringQuery {
     incidentAt: string;
@@ -66,6 +68,7 @@ export class ScoringController {
 
             // Get relevant change events
             const filters: ChangeEventFilters = {
+                organization_id: request.organization_id,
                 from_date: startTime,
                 to_date: incidentDate,
             };
@@ -81,11 +84,31 @@ export class ScoringController {
             }
 
             const changeEventModel = new ChangeEventModel(request.server);
-            const events = await changeEventModel.getAll(filters);
+
+            // Score each deployment once, at the time it went live, not once per status update
+            const events = await DeploymentLifecycleService.collapse(
+                await changeEventModel.getAll(filters),
+                request.organization_id,
+                request.server,
+                { from: startTime, to: incidentDate }
+            );
 
             // Score the events
             const scoringResult = ScoringEngine.scoreMultipleEvents(events, context);
 
+            // POST records a confirmed incident: keep the scores so commit timelines can show the
+            // incidents a change was a suspect in. GET stays a read-only what-if query.
+            if (request.method === 'POST') await new IncidentScoreModel(request.server).recordMany(scoringResult.individualScores.map(item => ({
+                organization_id: request.organization_id,
+                change_event_id: item.event.id,
+                incident_at: incidentDate,
+                incident_service: service,
+                incident_environment: environment,
+                severity,
+                score: item.score.score,
+                level: item.score.level
+            })));
+
             return reply.code(200).send({
                 success: true,
                 data: {
@@ -111,7 +134,8 @@ export class ScoringController {
                             type: item.event.type,
                             source: item.event.source,
                             summary: item.event.summary,
-                            meta: item.event.meta
+                            meta: item.event.meta,
+                            confidence: item.event.confidence
                         },
                         risk_assessment: item.score
                     })),
@@ -171,7 +195,7 @@ export class ScoringController {
             const changeEventModel = new ChangeEventModel(request.server);
             const event = await changeEventModel.getById(id);
 
-            if (!event) {
+            if (!event || event.org_id !== request.organization_id) {
                 return reply.code(404).send({
                     success: false,
                     message: 'Change event not found'
@@ -189,11 +213,17 @@ export class ScoringController {
 
             // Get related events for context (same service, within 24 hours)
             const oneDayBefore = new Date(incidentDate.getTime() - 24 * 60 * 60 * 1000);
-            const relatedEvents = await changeEventModel.getAll({
-                service: event.service,
-                from_date: oneDayBefore,
-                to_date: incidentDate
-            });
+            const relatedEvents = await DeploymentLifecycleService.collapse(
+                await changeEventModel.getAll({
+                    organization_id: request.organization_id,
+                    service: event.service,
+                    from_date: oneDayBefore,
+                    to_date: incidentDate
+                }),
+                request.organization_id,
+                request.server,
+                { from: oneDayBefore, to: incidentDate }
+            );
 
             // Score the specific event
             const scoreResult = ScoringEngine.scoreChangeEvent(event, context, relatedEvents);
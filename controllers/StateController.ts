@@ -0,0 +1,114 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { DeployedStateService } from '../services/DeployedState';
+
+interface StateQuery {
+    environment: string;
+    at?: string;
+}
+
+interface DriftQuery {
+    source: string;
+    target: string;
+    at?: string;
+}
+
+export class StateController {
+    // What version of every service was running in an environment at a point in time (now by default)
+    static async getState(
+        request: FastifyRequest<{ Querystring: StateQuery }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { environment, at } = request.query;
+
+            if (!environment) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'environment parameter is required'
+                });
+            }
+
+            const atDate = at ? new Date(at) : new Date();
+            if (isNaN(atDate.getTime())) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid at format. Use ISO 8601 format (e.g., 2026-01-18T14:30:00Z)'
+                });
+            }
+
+            const services = await DeployedStateService.getState(request.organization_id, environment, atDate, request.server);
+
+            return reply.code(200).send({
+                success: true,
+                data: {
+                    environment,
+                    at: atDate.toISOString(),
+                    services
+                }
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    // Services whose deployed commit differs between two environments, e.g. staging and prod before a promotion
+    static async getDrift(
+        request: FastifyRequest<{ Querystring: DriftQuery }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { source, target, at } = request.query;
+
+            if (!source || !target) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'source and target environment parameters are required'
+                });
+            }
+
+            if (source === target) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'source and target must be different environments'
+                });
+            }
+
+            const atDate = at ? new Date(at) : new Date();
+            if (isNaN(atDate.getTime())) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid at format. Use ISO 8601 format (e.g., 2026-01-18T14:30:00Z)'
+                });
+            }
+
+            const drift = await DeployedStateService.compare(request.organization_id, source, target, atDate, request.server);
+
+            return reply.code(200).send({
+                success: true,
+                data: {
+                    source,
+                    target,
+                    at: atDate.toISOString(),
+                    drifted: drift.drifted,
+                    in_sync: drift.in_sync,
+                    unknown: drift.unknown,
+                    summary: {
+                        drifted_services: drift.drifted.length,
+                        in_sync_services: drift.in_sync.length,
+                        unknown_services: drift.unknown.length
+                    }
+                }
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+}
@@ -0,0 +1,79 @@
+import { FastifyRequest, FastifyReply } from "fastify";
+import { WebhookDeliveryService } from "../services/WebhookDelivery";
+import { ApiKeyModel } from "../models/ApiKey";
+import { verifyUnleashToken } from "../utils/validateUnleashToken";
+import { sendQueued } from "../views/webhookResponses";
+
+type UnleashWebhookParams = {
+  orgId: string;
+};
+
+// Only what is read before queueing, the mappers read the rest from the stored body
+type UnleashWebhookBody = {
+  id?: number | string;
+  type?: string;
+};
+
+export class UnleashWebhookController {
+  static async handle(
+    req: FastifyRequest<{ Params: UnleashWebhookParams; Body: UnleashWebhookBody }>,
+    reply: FastifyReply
+  ) {
+    const authorization = req.headers["authorization"];
+    const { orgId } = req.params;
+
+    if (!authorization) {
+      return reply.code(401).send({ success: false, status: "rejected", error: "You must provide a valid Authorization header" });
+    }
+
+    const payload = req.body;
+
+    const allowedEvents = [
+      "feature-environment-enabled",
+      "feature-environment-disabled",
+      "feature-strategy-add",
+      "feature-strategy-update",
+      "feature-strategy-remove"
+    ];
+
+    if (!payload?.type || !allowedEvents.includes(payload.type)) {
+      return reply.send({ success: true, status: "ignored", reason: `Unsupported event type: ${payload?.type}` });
+    }
+
+    const apiKeyModel = new ApiKeyModel(req.server);
+
+    const apiKey = await apiKeyModel.getById(orgId);
+    if (!apiKey || apiKey.organization_id !== orgId) {
+      return reply.code(404).send({
+        success: false,
+        status: 'rejected',
+        message: 'API key not found'
+      });
+    }
+
+    const isValid = verifyUnleashToken({
+      authorization: String(authorization),
+      secret: apiKey.key_hash
+    });
+
+    if (!isValid) {
+      return reply.code(401).send({ success: false, status: 'rejected', error: 'Invalid Unleash token' });
+    }
+
+    try {
+      const delivery = await WebhookDeliveryService.enqueue({
+        organization_id: orgId,
+        provider: 'unleash',
+        delivery_id: payload.id !== undefined ? String(payload.id) : undefined,
+        event_type: String(payload.type),
+        headers: req.headers,
+        raw_body: String(req.rawBody),
+      }, req.server);
+
+      return sendQueued(reply, delivery);
+    } catch (error) {
+      req.log.error(error, 'Failed to queue Unleash delivery');
+      return reply.code(500).send({ success: false, status: 'rejected', error: 'Failed to queue delivery' });
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { WebhookDeliveryModel, WebhookDeliveryFilters } from '../models/WebhookDelivery';
+import { WebhookDeliveryService } from '../services/WebhookDelivery';
+
+export class WebhookDeliveryController {
+    static async getAllDeliveries(
+        request: FastifyRequest<{
+            Querystring: {
+                provider?: string;
+                status?: string;
+                event_type?: string;
+                delivery_id?: string;
+                limit?: string;
+                offset?: string;
+            }
+        }>,
+        reply: FastifyReply
+    ) {
+        try {
+            if (!request.organization_id) return reply.code(400).send({
+                success: false,
+                message: 'Organisation is missing or not registered'
+            });
+
+            const filters: WebhookDeliveryFilters = {
+                organization_id: request.organization_id
+            };
+
+            // Parse query parameters
+            if (request.query.provider) filters.provider = request.query.provider;
+            if (request.query.status) filters.status = request.query.status;
+            if (request.query.event_type) filters.event_type = request.query.event_type;
+            if (request.query.delivery_id) filters.delivery_id = request.query.delivery_id;
+
+            if (request.query.limit) {
+                const limit = parseInt(request.query.limit);
+                if (isNaN(limit) || limit < 1 || limit > 1000) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'Limit must be a number between 1 and 1000'
+                    });
+                }
+                filters.limit = limit;
+            }
+
+            if (request.query.offset) {
+                const offset = parseInt(request.query.offset);
+                if (isNaN(offset) || offset < 0) {
+                    return reply.code(400).send({
+                        success: false,
+                        message: 'Offset must be a non-negative number'
+                    });
+                }
+                filters.offset = offset;
+            }
+
+            const deliveryModel = new WebhookDeliveryModel(request.server);
+            const [deliveries, totalCount] = await Promise.all([
+                deliveryModel.getAll(filters),
+                deliveryModel.count(filters)
+            ]);
+
+            return reply.code(200).send({
+                success: true,
+                data: deliveries,
+                pagination: {
+                    total: totalCount,
+                    count: deliveries.length,
+                    limit: filters.limit || null,
+                    offset: filters.offset || 0
+                }
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async getDeliveryById(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { id } = request.params;
+
+            // Basic UUID validation
+            const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+            if (!uuidRegex.test(id)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid UUID format'
+                });
+            }
+
+            const deliveryModel = new WebhookDeliveryModel(request.server);
+            const delivery = await deliveryModel.getById(id);
+
+            // Ensure the delivery belongs to the authenticated organization
+            if (!delivery || delivery.organization_id !== request.organization_id) {
+                return reply.code(404).send({
+                    success: false,
+                    message: 'Webhook delivery not found'
+                });
+            }
+
+            return reply.code(200).send({
+                success: true,
+                data: delivery
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+
+    static async replayDelivery(
+        request: FastifyRequest<{ Params: { id: string } }>,
+        reply: FastifyReply
+    ) {
+        try {
+            const { id } = request.params;
+
+            // Basic UUID validation
+            const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+            if (!uuidRegex.test(id)) {
+                return reply.code(400).send({
+                    success: false,
+                    message: 'Invalid UUID format'
+                });
+            }
+
+            const deliveryModel = new WebhookDeliveryModel(request.server);
+            const delivery = await deliveryModel.getById(id);
+
+            if (!delivery || delivery.organization_id !== request.organization_id) {
+                return reply.code(404).send({
+                    success: false,
+                    message: 'Webhook delivery not found'
+                });
+            }
+
+            const result = await WebhookDeliveryService.process(delivery, request.server);
+            const updatedDelivery = await deliveryModel.getById(id);
+
+            return reply.code(200).send({
+                success: true,
+                data: {
+                    result,
+                    delivery: updatedDelivery
+                }
+            });
+        } catch (error) {
+            request.log.error(error);
+            return reply.code(500).send({
+                success: false,
+                message: 'Internal server error'
+            });
+        }
+    }
+}
@@ -0,0 +1,29 @@
+-- Create webhook_deliveries table
+-- Every verified webhook delivery is recorded before processing so it can be inspected and replayed
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL
+        REFERENCES organizations(id)
+        ON DELETE CASCADE,
+    provider TEXT NOT NULL, -- e.g. "github"
+    delivery_id TEXT, -- provider's delivery ID, e.g. X-GitHub-Delivery
+    event_type TEXT NOT NULL,
+    headers JSONB NOT NULL DEFAULT '{}',
+    raw_body TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    error TEXT,
+    change_event_id UUID REFERENCES change_events(id) ON DELETE SET NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_organization_id ON webhook_deliveries(organization_id, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_delivery_id ON webhook_deliveries(provider, delivery_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status);
+
+-- Add constraint for valid status values
+ALTER TABLE webhook_deliveries
+ADD CONSTRAINT webhook_deliveries_status_valid
+CHECK (status IN ('pending', 'stored', 'ignored', 'rejected', 'failed'));
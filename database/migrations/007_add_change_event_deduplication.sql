@@ -0,0 +1,16 @@
+-- Idempotency key supplied by the sender (Idempotency-Key header, or github:<delivery id> for webhooks)
+ALTER TABLE change_events
+ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+-- One event per key per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_change_events_idempotency_key
+    ON change_events(org_id, idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
+
+-- Optional natural-key dedupe window per organization, NULL disables it
+ALTER TABLE organizations
+ADD COLUMN IF NOT EXISTS dedupe_window_seconds INTEGER;
+
+ALTER TABLE organizations
+ADD CONSTRAINT organizations_dedupe_window_valid
+CHECK (dedupe_window_seconds IS NULL OR dedupe_window_seconds > 0);
@@ -0,0 +1,37 @@
+-- Create jobs table
+-- Durable background work queue, workers claim rows with FOR UPDATE SKIP LOCKED
+CREATE TABLE IF NOT EXISTS jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID
+        REFERENCES organizations(id)
+        ON DELETE CASCADE,
+    type TEXT NOT NULL, -- e.g. "webhook_delivery"
+    payload JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Partial index the worker polls on
+CREATE INDEX IF NOT EXISTS idx_jobs_runnable ON jobs(run_at) WHERE status = 'pending';
+
+-- Index for inspecting jobs per organization
+CREATE INDEX IF NOT EXISTS idx_jobs_organization_status ON jobs(organization_id, status, updated_at DESC);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_jobs_updated_at ON jobs;
+CREATE TRIGGER update_jobs_updated_at
+    BEFORE UPDATE ON jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint for valid status values ("dead" is the dead-letter state)
+ALTER TABLE jobs
+ADD CONSTRAINT jobs_status_valid
+CHECK (status IN ('pending', 'running', 'completed', 'dead'));
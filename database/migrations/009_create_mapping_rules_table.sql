@@ -0,0 +1,37 @@
+-- Create mapping_rules table
+-- Per-organization rules applied by the webhook mappers at ingestion time:
+--   branch      - branch glob (e.g. "release/*")          -> environment
+--   environment - deploy environment name glob ("eu-prod") -> environment
+--   repository  - repository name glob                     -> service
+CREATE TABLE IF NOT EXISTS mapping_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL
+        REFERENCES organizations(id)
+        ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    pattern TEXT NOT NULL,
+    target TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 0, -- higher wins when several rules match
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Create index for loading an organization's rules
+CREATE INDEX IF NOT EXISTS idx_mapping_rules_organization_id ON mapping_rules(organization_id, kind);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_mapping_rules_updated_at ON mapping_rules;
+CREATE TRIGGER update_mapping_rules_updated_at
+    BEFORE UPDATE ON mapping_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint for valid rule kinds
+ALTER TABLE mapping_rules
+ADD CONSTRAINT mapping_rules_kind_valid
+CHECK (kind IN ('branch', 'environment', 'repository'));
+
+-- Add constraint to ensure pattern and target are not empty
+ALTER TABLE mapping_rules
+ADD CONSTRAINT mapping_rules_not_empty
+CHECK (length(trim(pattern)) > 0 AND length(trim(target)) > 0);
@@ -0,0 +1,8 @@
+-- Allow path mapping rules for monorepos:
+--   path - changed file path prefix (e.g. "services/billing/") -> service
+ALTER TABLE mapping_rules
+DROP CONSTRAINT IF EXISTS mapping_rules_kind_valid;
+
+ALTER TABLE mapping_rules
+ADD CONSTRAINT mapping_rules_kind_valid
+CHECK (kind IN ('branch', 'environment', 'repository', 'path'));
@@ -0,0 +1,12 @@
+-- How sure the source is that the change actually shipped, from 0 to 1.
+-- A bare push is a weak signal, a successful production deployment status is a strong one.
+-- Existing and manually reported events count as confirmed.
+ALTER TABLE change_events
+ADD COLUMN IF NOT EXISTS confidence DOUBLE PRECISION NOT NULL DEFAULT 1.0;
+
+ALTER TABLE change_events
+ADD CONSTRAINT change_events_confidence_valid
+CHECK (confidence >= 0 AND confidence <= 1);
+
+-- Create index for filtering by confidence
+CREATE INDEX IF NOT EXISTS idx_change_events_confidence ON change_events(confidence);
@@ -0,0 +1,8 @@
+-- Allow workspace mapping rules for infrastructure ingestion:
+--   workspace - Terraform workspace name glob (e.g. "payments-*") -> service
+ALTER TABLE mapping_rules
+DROP CONSTRAINT IF EXISTS mapping_rules_kind_valid;
+
+ALTER TABLE mapping_rules
+ADD CONSTRAINT mapping_rules_kind_valid
+CHECK (kind IN ('branch', 'environment', 'repository', 'path', 'workspace'));
@@ -0,0 +1,35 @@
+-- Create inbound_webhooks table
+-- Generic webhooks registered by an organization, each with its own URL, secret and mapping template
+CREATE TABLE IF NOT EXISTS inbound_webhooks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL
+        REFERENCES organizations(id)
+        ON DELETE CASCADE,
+    name TEXT NOT NULL, -- also used as the change event source
+    secret TEXT NOT NULL, -- kept in plain text, it is needed to verify HMAC signatures
+    mapping JSONB NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Create index for listing an organization's webhooks
+CREATE INDEX IF NOT EXISTS idx_inbound_webhooks_organization_id ON inbound_webhooks(organization_id);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_inbound_webhooks_updated_at ON inbound_webhooks;
+CREATE TRIGGER update_inbound_webhooks_updated_at
+    BEFORE UPDATE ON inbound_webhooks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint to ensure name is not empty and fits change_events.source
+ALTER TABLE inbound_webhooks
+ADD CONSTRAINT inbound_webhooks_name_valid
+CHECK (length(trim(name)) > 0 AND length(name) <= 100);
+
+-- Generic deliveries need to know which webhook's mapping to apply
+ALTER TABLE webhook_deliveries
+ADD COLUMN IF NOT EXISTS inbound_webhook_id UUID
+    REFERENCES inbound_webhooks(id)
+    ON DELETE SET NULL;
@@ -0,0 +1,39 @@
+-- Create deployments table
+-- One row per deployment (keyed by the provider's deployment_id), tracking the states reported by
+-- the deployment and deployment-status change events so the rollout can be treated as a single change
+CREATE TABLE IF NOT EXISTS deployments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL
+        REFERENCES organizations(id)
+        ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    deployment_id TEXT NOT NULL,
+    service TEXT NOT NULL,
+    environment TEXT NOT NULL,
+    commit_sha TEXT,
+    state TEXT NOT NULL, -- latest reported state
+    states JSONB NOT NULL DEFAULT '[]', -- [{ state, at, change_event_id }] in the order they happened
+    queued_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    live_at TIMESTAMP WITH TIME ZONE, -- first success
+    finished_at TIMESTAMP WITH TIME ZONE, -- first success, failure or error
+    duration_seconds INTEGER, -- from the first state to finished_at
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (organization_id, source, deployment_id)
+);
+
+-- Create index for listing an organization's deployments by when they went live
+CREATE INDEX IF NOT EXISTS idx_deployments_organization_live_at ON deployments(organization_id, live_at DESC);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_deployments_updated_at ON deployments;
+CREATE TRIGGER update_deployments_updated_at
+    BEFORE UPDATE ON deployments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Add constraint for valid lifecycle states
+ALTER TABLE deployments
+ADD CONSTRAINT deployments_state_valid
+CHECK (state IN ('queued', 'in_progress', 'success', 'failure', 'error', 'inactive'));
@@ -0,0 +1,32 @@
+-- Create incident_scores table
+-- The risk score each change event got when an incident was scored, so a change (or a commit)
+-- can later be traced to the incidents it was a suspect in
+CREATE TABLE IF NOT EXISTS incident_scores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL
+        REFERENCES organizations(id)
+        ON DELETE CASCADE,
+    change_event_id UUID NOT NULL
+        REFERENCES change_events(id)
+        ON DELETE CASCADE,
+    incident_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    incident_service TEXT,
+    incident_environment TEXT,
+    severity TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    level TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    -- Scoring the same incident again refreshes the score instead of adding a row
+    UNIQUE (organization_id, incident_at, change_event_id)
+);
+
+-- Create index for looking up the incidents a change event was scored against
+CREATE INDEX IF NOT EXISTS idx_incident_scores_change_event_id ON incident_scores(change_event_id);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_incident_scores_updated_at ON incident_scores;
+CREATE TRIGGER update_incident_scores_updated_at
+    BEFORE UPDATE ON incident_scores
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,97 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules } from './rules';
+
+export class BitbucketChangeEventMapper {
+    // Bitbucket Cloud repo:push
+    static mapPushEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const change = payload.push?.changes?.find((c: any) => c.new?.type === 'branch');
+
+        // Branch deletions have no new target
+        if (!change) return null;
+
+        const branch = change.new.name;
+        const head = change.new.target;
+
+        return {
+            occurred_at: new Date(head.date),
+            service: rules.serviceForRepository(payload.repository.name) || payload.repository.name,
+            environment: rules.environmentForBranch(branch) || (branch === 'main' ? 'prod' : 'dev'),
+            type: 'deployment',
+            summary: head.message?.trim(),
+            confidence: 0.3,
+            meta: {
+                commit: head.hash,
+                branch,
+                author: head.author?.user?.display_name || head.author?.raw
+            }
+        };
+    }
+
+    // Bitbucket Server/Data Center repo:refs_changed
+    static mapRefsChangedEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const change = payload.changes?.find((c: any) => c.ref?.type === 'BRANCH' && c.type !== 'DELETE');
+
+        if (!change) return null;
+
+        const branch = change.ref.displayId;
+        const repository = payload.repository.slug || payload.repository.name;
+
+        return {
+            occurred_at: new Date(payload.date),
+            service: rules.serviceForRepository(repository) || repository,
+            environment: rules.environmentForBranch(branch) || (branch === 'main' ? 'prod' : 'dev'),
+            type: 'deployment',
+            summary: `Pushed ${change.toHash?.substring(0, 7)} to ${branch}`,
+            confidence: 0.3,
+            meta: {
+                commit: change.toHash,
+                branch,
+                author: payload.actor?.displayName || payload.actor?.name
+            }
+        };
+    }
+
+    // Bitbucket Cloud pullrequest:fulfilled
+    static mapPullRequestFulfilledEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent {
+        const pr = payload.pullrequest;
+
+        return {
+            occurred_at: new Date(pr.updated_on),
+            service: rules.serviceForRepository(payload.repository.name) || payload.repository.name,
+            environment: rules.environmentForBranch(pr.destination?.branch?.name) || (pr.destination?.branch?.name === 'main' ? 'prod' : 'dev'),
+            type: 'deployment',
+            summary: `Pull request #${pr.id} merged: ${pr.title}`,
+            confidence: 0.4,
+            meta: {
+                commit: pr.merge_commit?.hash,
+                branch: pr.destination?.branch?.name,
+                source_branch: pr.source?.branch?.name,
+                pull_request_id: pr.id,
+                url: pr.links?.html?.href,
+                author: pr.author?.display_name
+            }
+        };
+    }
+
+    // Bitbucket Server/Data Center pr:merged
+    static mapPrMergedEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent {
+        const pr = payload.pullRequest;
+        const repository = payload.repository?.slug || pr.toRef?.repository?.slug;
+
+        return {
+            occurred_at: new Date(payload.date),
+            service: rules.serviceForRepository(repository) || repository,
+            environment: rules.environmentForBranch(pr.toRef?.displayId) || (pr.toRef?.displayId === 'main' ? 'prod' : 'dev'),
+            type: 'deployment',
+            summary: `Pull request #${pr.id} merged: ${pr.title}`,
+            confidence: 0.4,
+            meta: {
+                commit: pr.properties?.mergeCommit?.id,
+                branch: pr.toRef?.displayId,
+                source_branch: pr.fromRef?.displayId,
+                pull_request_id: pr.id,
+                author: pr.author?.user?.displayName
+            }
+        };
+    }
+}
@@ -0,0 +1,108 @@
+// CloudEvents 1.0 over HTTP, see https://github.com/cloudevents/spec/blob/v1.0.2/cloudevents/bindings/http-protocol-binding.md
+export interface CloudEvent {
+    specversion: string;
+    id: string;
+    source: string;
+    type: string;
+    subject?: string;
+    time?: string;
+    datacontenttype?: string;
+    data?: any;
+}
+
+export type CloudEventParseResult =
+    | { valid: true; event: CloudEvent }
+    | { valid: false; message: string };
+
+const REQUIRED_ATTRIBUTES = ['specversion', 'id', 'source', 'type'] as const;
+
+export class CloudEventMapper {
+    // Binary mode puts the attributes in ce-* headers and the data in the body,
+    // structured mode sends the whole event as application/cloudevents+json
+    static parse(headers: Record<string, any>, body: any): CloudEventParseResult {
+        const event: any = headers['ce-specversion'] !== undefined
+            ? CloudEventMapper.fromBinary(headers, body)
+            : CloudEventMapper.fromStructured(body);
+
+        if (!event) {
+            return { valid: false, message: 'Request is not a CloudEvent: send ce-* headers or an application/cloudevents+json body' };
+        }
+
+        const missing = REQUIRED_ATTRIBUTES.filter(attribute => typeof event[attribute] !== 'string' || event[attribute].length === 0);
+        if (missing.length > 0) {
+            return { valid: false, message: `Missing required CloudEvents attributes: ${missing.join(', ')}` };
+        }
+
+        if (event.specversion !== '1.0') {
+            return { valid: false, message: `Unsupported CloudEvents specversion: ${event.specversion}` };
+        }
+
+        return { valid: true, event };
+    }
+
+    // Map a CloudEvent onto change event fields:
+    //   time    -> occurred_at (defaults to now)
+    //   type    -> type, taken from the last dot-separated segment ("com.acme.ci.deployment" -> "deployment")
+    //   source  -> source
+    //   subject -> service
+    //   data    -> environment, summary and meta; data.service/type/source/summary override the attributes above
+    static toChangeEventInput(event: CloudEvent): Record<string, any> {
+        const data = event.data && typeof event.data === 'object' && !Array.isArray(event.data) ? event.data : {};
+        const type = data.type || event.type.split('.').pop();
+        const service = data.service || event.subject;
+
+        return {
+            occurred_at: data.occurred_at || event.time || new Date().toISOString(),
+            service,
+            environment: data.environment,
+            type,
+            source: data.source || event.source,
+            summary: data.summary || `${type} of ${service}`,
+            confidence: data.confidence,
+            meta: {
+                ...(data.meta || {}),
+                cloudevent: {
+                    id: event.id,
+                    source: event.source,
+                    type: event.type,
+                    subject: event.subject
+                }
+            }
+        };
+    }
+
+    // Source + id is unique per the spec, so redelivered events are deduplicated
+    static idempotencyKey(event: CloudEvent): string {
+        return `cloudevents:${event.source}:${event.id}`;
+    }
+
+    private static fromBinary(headers: Record<string, any>, body: any): Partial<CloudEvent> {
+        return {
+            specversion: headers['ce-specversion'],
+            id: headers['ce-id'],
+            source: headers['ce-source'],
+            type: headers['ce-type'],
+            subject: headers['ce-subject'],
+            time: headers['ce-time'],
+            datacontenttype: headers['content-type'],
+            data: body
+        };
+    }
+
+    private static fromStructured(body: any): Partial<CloudEvent> | null {
+        if (!body || typeof body !== 'object' || Array.isArray(body) || body.specversion === undefined) return null;
+
+        let data = body.data;
+
+        // Binary data is base64 encoded in structured mode, JSON payloads are still worth decoding
+        if (data === undefined && typeof body.data_base64 === 'string') {
+            try {
+                data = JSON.parse(Buffer.from(body.data_base64, 'base64').toString('utf8'));
+            } catch {
+                data = undefined;
+            }
+        }
+
+        return { ...body, data };
+    }
+}
@@ -0,0 +1,58 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules } from './rules';
+import { globMatch } from '../utils/globMatch';
+
+// Verbs that reconfigure an existing resource rather than create or remove one
+const CONFIG_VERBS = ['Put', 'Update', 'Modify', 'Set', 'Authorize', 'Revoke', 'Enable', 'Disable', 'Tag', 'Untag'];
+
+// "ec2.amazonaws.com" -> "ec2"
+function awsService(record: any): string {
+    return String(record.eventSource || '').replace(/\.amazonaws\.com$/, '');
+}
+
+export class CloudTrailChangeEventMapper {
+    // Only successful, mutating calls matching the allow-list are changes worth recording
+    static isAllowed(record: any, allowList: string[]): boolean {
+        if (!record?.eventID || !record.eventName || record.readOnly === true || record.errorCode) return false;
+
+        const call = `${awsService(record)}:${record.eventName}`;
+        return allowList.some(pattern => globMatch(pattern, call));
+    }
+
+    static mapRecord(record: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent {
+        const service = awsService(record);
+        const identity = record.userIdentity || {};
+        const principal = identity.arn || identity.principalId || identity.invokedBy;
+        const resourceArns: string[] = (record.resources || []).map((r: any) => r.ARN).filter(Boolean);
+        const viaConsole = record.sessionCredentialFromConsole === 'true' ||
+            String(record.userAgent || '').includes('console.amazonaws.com');
+
+        return {
+            occurred_at: new Date(record.eventTime),
+            service,
+            environment: rules.environmentForName(record.recipientAccountId) ||
+                rules.environmentForName(record.awsRegion) ||
+                String(record.recipientAccountId || 'aws'),
+            type: CONFIG_VERBS.some(verb => record.eventName.startsWith(verb)) ? 'config-change' : 'infrastructure',
+            summary: `${record.eventName} on ${service}` +
+                (resourceArns[0] ? ` (${resourceArns[0]})` : '') +
+                (principal ? ` by ${principal}` : ''),
+            // CloudTrail only records calls that were made
+            confidence: 0.9,
+            meta: {
+                event_id: record.eventID,
+                event_name: record.eventName,
+                event_source: record.eventSource,
+                principal,
+                principal_type: identity.type,
+                region: record.awsRegion,
+                account_id: record.recipientAccountId,
+                resource_arn: resourceArns[0],
+                resource_arns: resourceArns.length > 0 ? resourceArns : undefined,
+                source_ip: record.sourceIPAddress,
+                user_agent: record.userAgent,
+                via_console: viaConsole
+            }
+        };
+    }
+}
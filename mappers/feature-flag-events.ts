@@ -0,0 +1,154 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules } from './rules';
+
+type FlagChange = 'toggle' | 'rollout' | 'targeting';
+
+const LAUNCHDARKLY_TARGETING_ACTIONS = [
+    'updateRules', 'updateRulesWithMVRs', 'updateTargets', 'updateTargetsWithMVRs',
+    'updatePrerequisites', 'updateOffVariation'
+];
+const LAUNCHDARKLY_FALLTHROUGH_ACTIONS = ['updateFallthrough', 'updateFallthroughWithMVRs'];
+
+const UNLEASH_TOGGLE_EVENTS = ['feature-environment-enabled', 'feature-environment-disabled'];
+const UNLEASH_STRATEGY_EVENTS = ['feature-strategy-add', 'feature-strategy-update', 'feature-strategy-remove'];
+
+function flagEnvironment(environment: string, rules: MappingRules): string {
+    return rules.environmentForName(environment) || (environment === 'production' ? 'prod' : environment);
+}
+
+function describeChange(flagKey: string, change: FlagChange, meta: Record<string, any>): string {
+    if (change === 'toggle') return `Flag ${flagKey} turned ${meta.state}`;
+    if (change === 'rollout') return `Flag ${flagKey} rollout ${meta.previous_rollout_percentage ?? 0}% → ${meta.rollout_percentage}%`;
+    return `Flag ${flagKey} targeting updated`;
+}
+
+// Share of traffic served the "on" variation of a LaunchDarkly flag in one environment.
+// Boolean flags serve `true`, other flags are assumed to use variation 0 as their on value.
+function launchDarklyRolloutPercentage(flag: any, environment: any): number | undefined {
+    if (!environment) return undefined;
+    if (!environment.on) return 0;
+
+    const variations: any[] = flag?.variations || [];
+    const onIndex = Math.max(variations.findIndex(v => v?.value === true), 0);
+    const fallthrough = environment.fallthrough || {};
+
+    if (fallthrough.rollout?.variations) {
+        // Weights are in thousandths of a percent
+        const weight = fallthrough.rollout.variations.find((v: any) => v.variation === onIndex)?.weight || 0;
+        return weight / 1000;
+    }
+
+    if (fallthrough.variation !== undefined) {
+        return fallthrough.variation === onIndex ? 100 : 0;
+    }
+
+    return undefined;
+}
+
+export class FeatureFlagChangeEventMapper {
+    // LaunchDarkly audit log webhook, one entry per flag change in one environment
+    static mapLaunchDarklyEvent(
+        payload: any,
+        rules: MappingRules = MappingRules.none(),
+        receivedAt: Date = new Date()
+    ): NormalizedChangeEvent | null {
+        if (payload.kind !== 'flag') return null;
+
+        // Resources look like "proj/default:env/production:flag/new-checkout"
+        const access = (payload.accesses || []).find((a: any) => /:env\/[^:]+:flag\//.test(a.resource || ''));
+        if (!access) return null;
+
+        const [, project, environmentKey, flagKey] =
+            String(access.resource).match(/^proj\/([^:;]+)(?:;[^:]*)?:env\/([^:;]+)(?:;[^:]*)?:flag\/([^:;]+)/) || [];
+        if (!flagKey) {
+            throw new Error(`Unrecognized LaunchDarkly resource: ${access.resource}`);
+        }
+
+        const previousEnv = payload.previousVersion?.environments?.[environmentKey];
+        const currentEnv = payload.currentVersion?.environments?.[environmentKey];
+        const previousRollout = launchDarklyRolloutPercentage(payload.previousVersion, previousEnv);
+        const rollout = launchDarklyRolloutPercentage(payload.currentVersion, currentEnv);
+
+        let change: FlagChange;
+        if (access.action === 'updateOn') change = 'toggle';
+        else if (LAUNCHDARKLY_FALLTHROUGH_ACTIONS.includes(access.action)) change = previousRollout !== rollout ? 'rollout' : 'targeting';
+        else if (LAUNCHDARKLY_TARGETING_ACTIONS.includes(access.action)) change = 'targeting';
+        // Renames, descriptions, tags and other edits that do not change what users are served
+        else return null;
+
+        const tags: string[] = payload.currentVersion?.tags || [];
+        const meta = {
+            flag_key: flagKey,
+            flag_name: payload.name,
+            project,
+            change,
+            action: access.action,
+            previous_state: previousEnv ? (previousEnv.on ? 'on' : 'off') : undefined,
+            state: currentEnv ? (currentEnv.on ? 'on' : 'off') : undefined,
+            previous_rollout_percentage: previousRollout,
+            rollout_percentage: rollout,
+            actor: payload.member?.email,
+            comment: payload.comment
+        };
+
+        return {
+            occurred_at: new Date(payload.date ?? receivedAt),
+            service: tags.find(t => t.startsWith('service:'))?.substring('service:'.length) || project,
+            environment: flagEnvironment(environmentKey, rules),
+            type: 'feature-flag',
+            summary: `${describeChange(flagKey, change, meta)} in ${environmentKey}`,
+            confidence: 0.95,
+            meta
+        };
+    }
+
+    // Unleash webhook integration, posting the event itself as the body
+    static mapUnleashEvent(
+        payload: any,
+        rules: MappingRules = MappingRules.none(),
+        receivedAt: Date = new Date()
+    ): NormalizedChangeEvent | null {
+        const isToggle = UNLEASH_TOGGLE_EVENTS.includes(payload.type);
+        if (!isToggle && !UNLEASH_STRATEGY_EVENTS.includes(payload.type)) return null;
+
+        if (!payload.featureName || !payload.environment) {
+            throw new Error('Unleash event is missing featureName or environment');
+        }
+
+        // Strategy events carry the new strategy in data and the old one in preData
+        const previousRollout = payload.type === 'feature-strategy-add'
+            ? undefined
+            : parseFloat(payload.preData?.parameters?.rollout);
+        const rollout = payload.type === 'feature-strategy-remove'
+            ? undefined
+            : parseFloat(payload.data?.parameters?.rollout);
+
+        let change: FlagChange;
+        if (isToggle) change = 'toggle';
+        else if (payload.type === 'feature-strategy-update' && !isNaN(rollout as number) && previousRollout !== rollout) change = 'rollout';
+        else change = 'targeting';
+
+        const meta = {
+            flag_key: payload.featureName,
+            project: payload.project,
+            change,
+            action: payload.type,
+            previous_state: isToggle ? (payload.type === 'feature-environment-enabled' ? 'off' : 'on') : undefined,
+            state: isToggle ? (payload.type === 'feature-environment-enabled' ? 'on' : 'off') : undefined,
+            strategy: payload.data?.name || payload.preData?.name,
+            previous_rollout_percentage: isNaN(previousRollout as number) ? undefined : previousRollout,
+            rollout_percentage: isNaN(rollout as number) ? undefined : rollout,
+            actor: payload.createdBy
+        };
+
+        return {
+            occurred_at: new Date(payload.createdAt ?? receivedAt),
+            service: payload.project,
+            environment: flagEnvironment(payload.environment, rules),
+            type: 'feature-flag',
+            summary: `${describeChange(payload.featureName, change, meta)} in ${payload.environment}`,
+            confidence: 0.95,
+            meta
+        };
+    }
+}
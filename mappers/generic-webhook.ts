@@ -0,0 +1,79 @@
+import { NormalizedChangeEvent } from './types';
+import { renderTemplate } from '../utils/template';
+
+// Stored per inbound webhook, every field is a template rendered against the payload (see utils/template)
+export interface WebhookMapping {
+    occurred_at?: string;
+    service: string;
+    environment: string;
+    type: string;
+    summary: string;
+    meta?: Record<string, any>;
+    confidence?: number;
+}
+
+const REQUIRED_FIELDS = ['service', 'environment', 'type', 'summary'] as const;
+
+// Epoch timestamps are common in tool payloads, as numbers or digit strings. Values below 1e12
+// (September 2001 in milliseconds) are taken as seconds, larger ones as milliseconds.
+function toDate(value: any): Date {
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+        const epoch = Number(value);
+        return new Date(epoch < 1e12 ? epoch * 1000 : epoch);
+    }
+
+    return new Date(value);
+}
+
+export class GenericWebhookMapper {
+    // Payloads the mapping finds no timestamp in are dated when the delivery arrived
+    static map(mapping: WebhookMapping, payload: any, receivedAt: Date = new Date()): NormalizedChangeEvent {
+        const rendered = (field: keyof WebhookMapping) => {
+            const value = renderTemplate(mapping[field], payload);
+            return value === undefined || value === null ? '' : String(value);
+        };
+
+        const missing = REQUIRED_FIELDS.filter(field => rendered(field).length === 0);
+        if (missing.length > 0) {
+            throw new Error(`Mapping produced no value for: ${missing.join(', ')}`);
+        }
+
+        const occurredAt = mapping.occurred_at ? renderTemplate(mapping.occurred_at, payload) : undefined;
+
+        return {
+            occurred_at: occurredAt ? toDate(occurredAt) : receivedAt,
+            service: rendered('service'),
+            environment: rendered('environment'),
+            type: rendered('type'),
+            summary: rendered('summary'),
+            confidence: mapping.confidence ?? 1,
+            meta: renderTemplate(mapping.meta || {}, payload)
+        };
+    }
+
+    // Returns an error message, or null when the mapping can be stored
+    static validateMapping(mapping: any): string | null {
+        if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+            return 'mapping must be an object';
+        }
+
+        const missing = REQUIRED_FIELDS.filter(field => typeof mapping[field] !== 'string' || mapping[field].trim().length === 0);
+        if (missing.length > 0) {
+            return `mapping is missing templates for: ${missing.join(', ')}`;
+        }
+
+        if (mapping.occurred_at !== undefined && typeof mapping.occurred_at !== 'string') {
+            return 'mapping.occurred_at must be a template string';
+        }
+
+        if (mapping.meta !== undefined && (typeof mapping.meta !== 'object' || mapping.meta === null || Array.isArray(mapping.meta))) {
+            return 'mapping.meta must be an object';
+        }
+
+        if (mapping.confidence !== undefined && (typeof mapping.confidence !== 'number' || mapping.confidence < 0 || mapping.confidence > 1)) {
+            return 'mapping.confidence must be a number between 0 and 1';
+        }
+
+        return null;
+    }
+}
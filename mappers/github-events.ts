@@ -1,11 +1,24 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules, changedPaths } from './rules';
+
+// Deployments and their statuses must land in the same environment for lifecycles, drift and /state
+function deploymentEnvironment(environment: string | undefined, rules: MappingRules): string {
+    return rules.environmentForName(environment) ||
+        (environment?.toLowerCase() === 'production' ? 'prod' : 'staging');
+}
+
 export class GitHubChangeEventMapper {
-    static mapPushEvent(payload: any) {
+    static mapPushEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent[] | null {
+        // Branch deletions and tag pushes without commits have no head_commit
+        if (!payload.head_commit) return null;
+
         const branch = payload.ref?.replace('refs/heads/', '');
 
-        return {
+        // In a monorepo one push can touch several services
+        return rules.splitByPaths({
             occurred_at: new Date(payload.head_commit.timestamp),
-            service: payload.repository.name,
-            environment: branch === 'main' ? 'prod' : 'dev',
+            service: rules.serviceForRepository(payload.repository.name) || payload.repository.name,
+            environment: rules.environmentForBranch(branch) || (branch === 'main' ? 'prod' : 'dev'),
             type: 'deployment',
             summary: payload.head_commit.message,
             confidence: 0.3,
@@ -14,18 +27,16 @@ export class GitHubChangeEventMapper {
                 branch,
                 author: payload.head_commit.author?.name
             }
-        };
+        }, changedPaths(payload.commits));
     }
 
-    static mapDeploymentEvent(payload: any) {
+    static mapDeploymentEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent {
         const d = payload.deployment;
 
         return {
             occurred_at: new Date(d.created_at),
-            service: payload.repository.name,
-            environment: d.environment?.toLowerCase() === 'production'
-                ? 'prod'
-                : 'staging',
+            service: rules.serviceForRepository(payload.repository.name) || payload.repository.name,
+            environment: deploymentEnvironment(d.environment, rules),
             type: 'deployment',
             summary: `Deployment created (${d.environment})`,
             confidence: 0.8,
@@ -37,13 +48,13 @@ export class GitHubChangeEventMapper {
         };
     }
 
-    static mapDeploymentStatusEvent(payload: any) {
+    static mapDeploymentStatusEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent {
         const status = payload.deployment_status;
 
         return {
             occurred_at: new Date(status.created_at),
-            service: payload.repository.name,
-            environment: status.environment,
+            service: rules.serviceForRepository(payload.repository.name) || payload.repository.name,
+            environment: deploymentEnvironment(status.environment ?? payload.deployment.environment, rules),
             type: 'deployment',
             summary: `Deployment ${status.state}`,
             confidence: status.state === 'success' ? 0.95 : 0.6,
@@ -56,7 +67,99 @@ export class GitHubChangeEventMapper {
         };
     }
 
+    static mapWorkflowRunEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const run = payload.workflow_run;
 
-}
+        // requested/in_progress runs have no conclusion yet
+        if (payload.action !== 'completed' || !run) return null;
+
+        return {
+            occurred_at: new Date(run.updated_at),
+            service: rules.serviceForRepository(payload.repository.name) || payload.repository.name,
+            environment: rules.environmentForBranch(run.head_branch) || (run.head_branch === 'main' ? 'prod' : 'dev'),
+            type: 'deployment',
+            summary: `Workflow ${run.name} ${run.conclusion} on ${run.head_branch}`,
+            confidence: run.conclusion === 'success' ? 0.5 : 0.3,
+            meta: {
+                commit: run.head_sha,
+                branch: run.head_branch,
+                conclusion: run.conclusion,
+                workflow: run.name,
+                run_id: run.id,
+                run_url: run.html_url,
+                triggered_by: run.triggering_actor?.login || run.actor?.login
+            }
+        };
+    }
+
+    static mapPageBuildEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const build = payload.build;
+
+        // Only finished builds are published
+        if (!build || !['built', 'errored'].includes(build.status)) return null;
+
+        return {
+            occurred_at: new Date(build.updated_at),
+            service: rules.serviceForRepository(payload.repository.name) || payload.repository.name,
+            environment: 'prod',
+            type: 'deployment',
+            summary: `GitHub Pages build ${build.status}`,
+            confidence: build.status === 'built' ? 0.9 : 0.5,
+            meta: {
+                commit: build.commit,
+                status: build.status,
+                error: build.error?.message,
+                duration: build.duration,
+                triggered_by: build.pusher?.login
+            }
+        };
+    }
+
+    static mapReleaseEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const release = payload.release;
+
+        // created/edited/deleted fire too, only a publish ships anything
+        if (payload.action !== 'published' || !release) return null;
+
+        return {
+            occurred_at: new Date(release.published_at),
+            service: rules.serviceForRepository(payload.repository.name) || payload.repository.name,
+            environment: release.prerelease ? 'staging' : 'prod',
+            type: 'deployment',
+            summary: `Release ${release.name || release.tag_name} published`,
+            confidence: 0.6,
+            meta: {
+                tag: release.tag_name,
+                branch: release.target_commitish,
+                prerelease: release.prerelease,
+                url: release.html_url,
+                author: release.author?.login
+            }
+        };
+    }
+
+    static mapPullRequestEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const pr = payload.pull_request;
 
+        // Closed without merging changes nothing
+        if (payload.action !== 'closed' || !pr?.merged) return null;
 
+        return {
+            occurred_at: new Date(pr.merged_at),
+            service: rules.serviceForRepository(payload.repository.name) || payload.repository.name,
+            environment: rules.environmentForBranch(pr.base?.ref) || (pr.base?.ref === 'main' ? 'prod' : 'dev'),
+            type: 'deployment',
+            summary: `Pull request #${pr.number} merged: ${pr.title}`,
+            confidence: 0.4,
+            meta: {
+                commit: pr.merge_commit_sha,
+                branch: pr.base?.ref,
+                source_branch: pr.head?.ref,
+                pull_request: pr.number,
+                url: pr.html_url,
+                author: pr.user?.login,
+                merged_by: pr.merged_by?.login
+            }
+        };
+    }
+}
@@ -0,0 +1,104 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules, changedPaths } from './rules';
+
+export class GitLabChangeEventMapper {
+    static mapPushEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent[] | null {
+        const branch = payload.ref?.replace('refs/heads/', '');
+        const commits: any[] = payload.commits || [];
+
+        // GitLab does not send a head_commit, find it by checkout_sha instead
+        const headCommit = commits.find(c => c.id === payload.checkout_sha) || commits[commits.length - 1];
+
+        // Branch deletions carry no commits
+        if (!headCommit) return null;
+
+        const repository = payload.project?.name || payload.repository?.name;
+
+        // In a monorepo one push can touch several services
+        return rules.splitByPaths({
+            occurred_at: new Date(headCommit.timestamp),
+            service: rules.serviceForRepository(repository) || repository,
+            environment: rules.environmentForBranch(branch) || (branch === 'main' ? 'prod' : 'dev'),
+            type: 'deployment',
+            summary: headCommit.message,
+            confidence: 0.3,
+            meta: {
+                commit: headCommit.id,
+                branch,
+                author: headCommit.author?.name || payload.user_name
+            }
+        }, changedPaths(commits));
+    }
+
+    static mapMergeRequestEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const mr = payload.object_attributes;
+
+        // Only merged MRs change what is running, opened/updated/closed are noise
+        if (!mr || mr.action !== 'merge') return null;
+
+        return {
+            occurred_at: new Date(mr.updated_at),
+            service: rules.serviceForRepository(payload.project?.name) || payload.project?.name,
+            environment: rules.environmentForBranch(mr.target_branch) || (mr.target_branch === 'main' ? 'prod' : 'dev'),
+            type: 'deployment',
+            summary: `Merge request !${mr.iid} merged: ${mr.title}`,
+            confidence: 0.4,
+            meta: {
+                commit: mr.merge_commit_sha,
+                branch: mr.target_branch,
+                source_branch: mr.source_branch,
+                merge_request_iid: mr.iid,
+                url: mr.url,
+                author: payload.user?.username
+            }
+        };
+    }
+
+    static mapPipelineEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const pipeline = payload.object_attributes;
+
+        // Ignore pending/running pipelines, we only care about the outcome
+        if (!pipeline || !['success', 'failed'].includes(pipeline.status)) return null;
+
+        return {
+            occurred_at: new Date(pipeline.finished_at || pipeline.created_at),
+            service: rules.serviceForRepository(payload.project?.name) || payload.project?.name,
+            environment: rules.environmentForBranch(pipeline.ref) || (pipeline.ref === 'main' ? 'prod' : 'dev'),
+            type: 'deployment',
+            summary: `Pipeline #${pipeline.id} ${pipeline.status} on ${pipeline.ref}`,
+            confidence: pipeline.status === 'success' ? 0.5 : 0.3,
+            meta: {
+                commit: pipeline.sha,
+                branch: pipeline.ref,
+                pipeline_id: pipeline.id,
+                status: pipeline.status,
+                duration: pipeline.duration,
+                author: payload.user?.username
+            }
+        };
+    }
+
+    static mapDeploymentEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent {
+        const environment = payload.environment?.toLowerCase();
+
+        return {
+            occurred_at: new Date(payload.status_changed_at),
+            service: rules.serviceForRepository(payload.project?.name) || payload.project?.name,
+            environment: rules.environmentForName(payload.environment) || (environment === 'production' ? 'prod' : environment),
+            type: 'deployment',
+            summary: `Deployment ${payload.status} (${payload.environment})`,
+            confidence: payload.status === 'success' ? 0.95 : 0.6,
+            meta: {
+                state: payload.status,
+                url: payload.deployable_url,
+                deployment_id: payload.deployment_id,
+                // Deployment hooks only carry the short SHA, the full one is the last segment of commit_url
+                commit: payload.commit_url?.match(/\/commit\/([0-9a-f]{40})/i)?.[1] || payload.short_sha,
+                short_sha: payload.short_sha,
+                commit_url: payload.commit_url,
+                branch: payload.ref,
+                triggered_by: payload.user?.username
+            }
+        };
+    }
+}
@@ -0,0 +1,128 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules } from './rules';
+
+type SyncOutcome = 'succeeded' | 'failed' | 'degraded';
+
+const OUTCOME_CONFIDENCE: Record<SyncOutcome, number> = {
+    succeeded: 0.95,
+    degraded: 0.9,
+    // A failed sync may have applied part of the manifests
+    failed: 0.6
+};
+
+const FLUX_SUCCEEDED_REASONS = ['ReconciliationSucceeded', 'InstallSucceeded', 'UpgradeSucceeded'];
+const FLUX_FAILED_REASONS = ['ReconciliationFailed', 'InstallFailed', 'UpgradeFailed', 'BuildFailed', 'ArtifactFailed'];
+const FLUX_DEGRADED_REASONS = ['HealthCheckFailed'];
+
+// Flux revisions look like "main@sha1:<sha>" (v2) or "main/<sha>" (older controllers)
+function fluxCommit(revision: string | undefined): string | undefined {
+    return revision?.match(/(?:sha1:|\/|^)([0-9a-f]{7,40})$/i)?.[1];
+}
+
+export class GitOpsChangeEventMapper {
+    // Argo CD notification webhook. Accepts either the flat template documented in the README
+    // or the whole application object sent as { "app": {{toJson .app}} }.
+    static mapArgoCdSyncEvent(
+        payload: any,
+        rules: MappingRules = MappingRules.none(),
+        receivedAt: Date = new Date()
+    ): NormalizedChangeEvent | null {
+        const app = typeof payload.app === 'object' && payload.app !== null ? payload.app : null;
+        const operation = app?.status?.operationState;
+
+        const application = app?.metadata?.name || payload.app;
+        const revision = payload.revision || operation?.syncResult?.revision || app?.status?.sync?.revision;
+        const phase = payload.phase || operation?.phase;
+        const health = payload.health || app?.status?.health?.status;
+        const syncStatus = payload.sync_status || app?.status?.sync?.status;
+        const namespace = payload.destination_namespace || app?.spec?.destination?.namespace;
+        const cluster = payload.destination_server || app?.spec?.destination?.server || app?.spec?.destination?.name;
+
+        if (!application) {
+            throw new Error('Argo CD notification is missing the application name');
+        }
+
+        let outcome: SyncOutcome;
+        if (phase === 'Failed' || phase === 'Error') outcome = 'failed';
+        else if (health === 'Degraded') outcome = 'degraded';
+        else if (phase === 'Succeeded') outcome = 'succeeded';
+        // Running syncs and other health transitions are not a change on their own
+        else return null;
+
+        return {
+            occurred_at: new Date(payload.finished_at || operation?.finishedAt || receivedAt),
+            service: payload.service || application,
+            environment: payload.environment ||
+                rules.environmentForName(application) ||
+                rules.environmentForName(namespace) ||
+                namespace ||
+                'prod',
+            type: 'deployment',
+            summary: `Argo CD sync of ${application} ${outcome}` + (revision ? ` at ${String(revision).substring(0, 7)}` : ''),
+            confidence: OUTCOME_CONFIDENCE[outcome],
+            meta: {
+                commit: revision,
+                revision,
+                application,
+                project: payload.project || app?.spec?.project,
+                outcome,
+                phase,
+                health,
+                sync_status: syncStatus,
+                namespace,
+                cluster,
+                repo_url: payload.repo_url || app?.spec?.source?.repoURL,
+                message: payload.message || operation?.message
+            }
+        };
+    }
+
+    // Flux notification-controller event for a Kustomization or HelmRelease
+    static mapFluxEvent(
+        payload: any,
+        rules: MappingRules = MappingRules.none(),
+        receivedAt: Date = new Date()
+    ): NormalizedChangeEvent | null {
+        const object = payload.involvedObject;
+
+        if (!object?.name) {
+            throw new Error('Flux event is missing involvedObject');
+        }
+
+        let outcome: SyncOutcome;
+        if (FLUX_FAILED_REASONS.includes(payload.reason)) outcome = 'failed';
+        else if (FLUX_DEGRADED_REASONS.includes(payload.reason)) outcome = 'degraded';
+        else if (FLUX_SUCCEEDED_REASONS.includes(payload.reason)) outcome = 'succeeded';
+        // Progressing, dependency and artifact-up-to-date events
+        else return null;
+
+        // The metadata key is prefixed with the controller's API group on newer Flux versions
+        const metadata = payload.metadata || {};
+        const revision = metadata.revision ||
+            Object.entries(metadata).find(([key]) => key.endsWith('/revision'))?.[1] as string | undefined;
+        const commit = fluxCommit(revision);
+
+        return {
+            occurred_at: new Date(payload.timestamp || receivedAt),
+            service: object.name,
+            environment: rules.environmentForName(object.name) ||
+                rules.environmentForName(object.namespace) ||
+                object.namespace,
+            type: 'deployment',
+            summary: `Flux ${object.kind} ${object.name} ${outcome}` + (commit ? ` at ${commit.substring(0, 7)}` : ''),
+            confidence: OUTCOME_CONFIDENCE[outcome],
+            meta: {
+                commit,
+                revision,
+                application: object.name,
+                kind: object.kind,
+                namespace: object.namespace,
+                outcome,
+                reason: payload.reason,
+                severity: payload.severity,
+                controller: payload.reportingController,
+                message: payload.message
+            }
+        };
+    }
+}
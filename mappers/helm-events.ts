@@ -0,0 +1,82 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules } from './rules';
+
+// Helm writes this description on the revision a rollback creates
+const ROLLBACK_DESCRIPTION = /^Rollback to (\d+)/i;
+
+export class HelmChangeEventMapper {
+    // A Helm release record, either the flat contract documented in the README
+    // or the output of `helm status <release> -o json`
+    static mapReleaseEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const status = payload.info ? {
+            release: payload.name,
+            namespace: payload.namespace,
+            chart: payload.chart?.metadata?.name,
+            chart_version: payload.chart?.metadata?.version,
+            app_version: payload.chart?.metadata?.appVersion,
+            revision: payload.version,
+            status: payload.info.status,
+            description: payload.info.description,
+            occurred_at: payload.info.last_deployed
+        } : payload;
+
+        if (!status.release || status.revision === undefined) {
+            throw new Error('release and revision are required');
+        }
+
+        // Pending installs/upgrades/rollbacks are reported again once they settle
+        if (status.status !== 'deployed' && status.status !== 'failed') return null;
+
+        const environment = payload.environment ||
+            rules.environmentForName(status.namespace) ||
+            rules.environmentForName(payload.cluster) ||
+            status.namespace;
+
+        if (!environment) {
+            throw new Error('environment is required');
+        }
+
+        const revision = Number(status.revision);
+        const rollbackTarget = status.description?.match(ROLLBACK_DESCRIPTION)?.[1];
+        const isRollback = payload.action === 'rollback' || !!rollbackTarget;
+        const rolledBackTo = payload.rollback_to_revision ?? (rollbackTarget ? Number(rollbackTarget) : undefined);
+        const previousRevision = payload.previous_revision ?? (revision > 1 ? revision - 1 : undefined);
+        const succeeded = status.status === 'deployed';
+
+        const chart = [status.chart, status.chart_version].filter(Boolean).join('-');
+        const summary = isRollback
+            ? `Helm rolled back ${status.release}` + (rolledBackTo !== undefined ? ` to revision ${rolledBackTo}` : '') + ` (revision ${revision})`
+            : `Helm ${revision === 1 ? 'installed' : 'upgraded'} ${status.release}` +
+                (chart ? ` to chart ${chart}` : '') +
+                (status.app_version ? ` (app ${status.app_version})` : '') +
+                `, revision ${revision}`;
+
+        return {
+            occurred_at: status.occurred_at ? new Date(status.occurred_at) : new Date(),
+            service: payload.service || status.release,
+            environment,
+            type: isRollback ? 'rollback' : 'deployment',
+            summary: succeeded ? summary : `${summary} failed`,
+            confidence: succeeded ? 0.95 : 0.6,
+            meta: {
+                release: status.release,
+                namespace: status.namespace,
+                cluster: payload.cluster,
+                chart: status.chart,
+                chart_version: status.chart_version,
+                app_version: status.app_version,
+                revision,
+                previous_revision: previousRevision,
+                rolled_back_to_revision: rolledBackTo,
+                status: status.status,
+                description: status.description,
+                values_hash: payload.values_hash,
+                previous_values_hash: payload.previous_values_hash,
+                values_changed: payload.values_hash && payload.previous_values_hash
+                    ? payload.values_hash !== payload.previous_values_hash
+                    : undefined,
+                commit: payload.commit
+            }
+        };
+    }
+}
@@ -0,0 +1,86 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules } from './rules';
+
+const ROLLOUT_KINDS = ['Deployment', 'StatefulSet'];
+
+// Container images as { container: image }, from either that shape or a pod spec containers list
+function normalizeImages(images: any): Record<string, string> {
+    if (Array.isArray(images)) {
+        return Object.fromEntries(images.filter(c => c?.name && c?.image).map(c => [c.name, c.image]));
+    }
+
+    return images && typeof images === 'object' ? images : {};
+}
+
+export class KubernetesChangeEventMapper {
+    // Rollout notification posted by an in-cluster watcher or admission webhook, carrying the
+    // workload's previous and current spec. Image changes win over config changes, which win over scaling.
+    static mapRolloutEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        if (!ROLLOUT_KINDS.includes(payload.kind)) return null;
+
+        if (!payload.namespace || !payload.name) {
+            throw new Error('namespace and name are required');
+        }
+
+        const previous = payload.previous || {};
+        const current = payload.current || {};
+
+        const previousImages = normalizeImages(previous.images ?? previous.containers);
+        const currentImages = normalizeImages(current.images ?? current.containers);
+        const imageChanges = Object.keys(currentImages)
+            .filter(container => previousImages[container] !== currentImages[container])
+            .map(container => ({ container, from: previousImages[container] || null, to: currentImages[container] }));
+
+        const configChanged = current.config_hash !== undefined && previous.config_hash !== current.config_hash;
+        const replicasChanged = current.replicas !== undefined && previous.replicas !== current.replicas;
+
+        let type: string;
+        let summary: string;
+
+        if (imageChanges.length > 0) {
+            type = 'deployment';
+            summary = `Rolled out ${payload.name} in ${payload.namespace}: ` +
+                imageChanges.map(c => `${c.container} ${c.to}`).join(', ');
+        } else if (configChanged) {
+            type = 'config-change';
+            summary = `Updated config for ${payload.name} in ${payload.namespace}`;
+        } else if (replicasChanged) {
+            type = 'scaling';
+            summary = `Scaled ${payload.name} in ${payload.namespace} from ${previous.replicas ?? 'unknown'} to ${current.replicas} replicas`;
+        } else {
+            // Status-only updates and no-op applies
+            return null;
+        }
+
+        const labels = payload.labels || {};
+
+        // Images pinned by digest ("repo@sha256:...") link the rollout to the registry push
+        const digests = imageChanges
+            .map(c => c.to.split('@')[1])
+            .filter((digest): digest is string => !!digest);
+
+        return {
+            occurred_at: payload.occurred_at ? new Date(payload.occurred_at) : new Date(),
+            service: payload.service || labels['app.kubernetes.io/name'] || labels.app || payload.name,
+            environment: payload.environment ||
+                rules.environmentForName(payload.namespace) ||
+                rules.environmentForName(payload.cluster) ||
+                payload.namespace,
+            type,
+            summary,
+            confidence: 0.9,
+            meta: {
+                cluster: payload.cluster,
+                namespace: payload.namespace,
+                kind: payload.kind,
+                name: payload.name,
+                revision: payload.revision,
+                images: imageChanges.length > 0 ? imageChanges : undefined,
+                digests: digests.length > 0 ? digests : undefined,
+                config_hash: configChanged ? { from: previous.config_hash ?? null, to: current.config_hash } : undefined,
+                replicas: replicasChanged ? { from: previous.replicas ?? null, to: current.replicas } : undefined,
+                actor: payload.actor
+            }
+        };
+    }
+}
@@ -0,0 +1,126 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules } from './rules';
+
+interface AppliedMigration {
+    version: string;
+    checksum?: string | number;
+    duration_ms?: number;
+}
+
+interface MigrationRun {
+    tool: string;
+    migrations: AppliedMigration[];
+    version?: string;
+    database?: string;
+    schema?: string;
+    success: boolean;
+    error?: string;
+    duration_ms?: number;
+}
+
+function sumDurations(migrations: AppliedMigration[]): number | undefined {
+    const durations = migrations.map(m => m.duration_ms).filter((d): d is number => typeof d === 'number');
+    return durations.length > 0 ? durations.reduce((a, b) => a + b, 0) : undefined;
+}
+
+// Every tool's contract also carries service, environment and an optional occurred_at
+function toChangeEvent(payload: any, run: MigrationRun, rules: MappingRules): NormalizedChangeEvent | null {
+    // Nothing pending, nothing changed
+    if (run.success && run.migrations.length === 0) return null;
+
+    if (!payload.environment && !rules.environmentForName(run.database)) {
+        throw new Error('environment is required');
+    }
+
+    const version = run.version || run.migrations[run.migrations.length - 1]?.version;
+    const target = run.database || payload.service;
+    const count = `${run.migrations.length} migration${run.migrations.length === 1 ? '' : 's'}`;
+
+    return {
+        occurred_at: payload.occurred_at ? new Date(payload.occurred_at) : new Date(),
+        service: payload.service || run.database,
+        environment: payload.environment || rules.environmentForName(run.database),
+        type: 'migration',
+        summary: run.success
+            ? `${run.tool} migrated ${target} to ${version} (${count})`
+            : `${run.tool} migration of ${target} failed` + (version ? ` at ${version}` : ''),
+        // A failed run may still have applied part of its DDL
+        confidence: run.success ? 0.95 : 0.7,
+        meta: {
+            tool: run.tool,
+            version,
+            versions: run.migrations.map(m => m.version),
+            checksums: run.migrations.some(m => m.checksum !== undefined)
+                ? Object.fromEntries(run.migrations.map(m => [m.version, m.checksum ?? null]))
+                : undefined,
+            duration_ms: run.duration_ms ?? sumDurations(run.migrations),
+            database: run.database,
+            schema: run.schema,
+            success: run.success,
+            error: run.error,
+            database_migration: true,
+            commit: payload.commit
+        }
+    };
+}
+
+export class MigrationChangeEventMapper {
+    // `flyway migrate -outputType=json` output, posted from an afterMigrate/afterMigrateError callback
+    static mapFlywayEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const migrations: any[] = payload.migrations || [];
+
+        return toChangeEvent(payload, {
+            tool: 'Flyway',
+            migrations: migrations.map(m => ({
+                version: m.version || m.description,
+                checksum: m.checksum,
+                duration_ms: m.executionTime
+            })),
+            version: payload.targetSchemaVersion,
+            database: payload.database,
+            schema: payload.schemaName,
+            success: payload.success !== false,
+            error: payload.error?.message || payload.error
+        }, rules);
+    }
+
+    // { database, changelog, tag?, changesets: [{ id, author, filename, checksum, duration_ms }], success, error?, duration_ms? }
+    static mapLiquibaseEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const changesets: any[] = payload.changesets || [];
+
+        return toChangeEvent(payload, {
+            tool: 'Liquibase',
+            // Changeset IDs are only unique together with their author and file
+            migrations: changesets.map(c => ({
+                version: [c.filename, c.id, c.author].filter(Boolean).join('::'),
+                checksum: c.checksum,
+                duration_ms: c.duration_ms
+            })),
+            version: payload.tag,
+            database: payload.database,
+            schema: payload.schema,
+            success: payload.success !== false,
+            error: payload.error,
+            duration_ms: payload.duration_ms
+        }, rules);
+    }
+
+    // knex and Prisma hooks: { database, migrations: [{ name, checksum?, duration_ms? }], success, error?, duration_ms? }
+    static mapScriptedEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const migrations: any[] = payload.migrations || [];
+
+        return toChangeEvent(payload, {
+            tool: payload.tool === 'prisma' ? 'Prisma' : 'knex',
+            migrations: migrations.map(m => ({
+                version: m.name,
+                checksum: m.checksum,
+                duration_ms: m.duration_ms
+            })),
+            database: payload.database,
+            schema: payload.schema,
+            success: payload.success !== false,
+            error: payload.error,
+            duration_ms: payload.duration_ms
+        }, rules);
+    }
+}
@@ -0,0 +1,80 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules } from './rules';
+
+// An image push changes nothing running, it is context for the rollout that follows
+const IMAGE_PUSH_CONFIDENCE = 0.2;
+
+// Image manifests and the indexes (manifest lists) that multi-arch builds tag instead
+const MANIFEST_MEDIA_TYPES = [
+    'application/vnd.docker.distribution.manifest.v1+json',
+    'application/vnd.docker.distribution.manifest.v1+prettyjws',
+    'application/vnd.docker.distribution.manifest.v2+json',
+    'application/vnd.docker.distribution.manifest.list.v2+json',
+    'application/vnd.oci.image.manifest.v1+json',
+    'application/vnd.oci.image.index.v1+json'
+];
+
+function imagePushEvent(
+    push: { repository: string; tag?: string; digest: string; occurred_at: Date; actor?: string; registry?: string; url?: string },
+    rules: MappingRules
+): NormalizedChangeEvent {
+    const reference = push.tag ? `${push.repository}:${push.tag}` : `${push.repository}@${push.digest}`;
+
+    return {
+        occurred_at: push.occurred_at,
+        service: rules.serviceForRepository(push.repository) || push.repository.split('/').pop() || push.repository,
+        environment: 'registry',
+        type: 'image-push',
+        summary: `Pushed image ${reference}`,
+        confidence: IMAGE_PUSH_CONFIDENCE,
+        meta: {
+            repository: push.repository,
+            tag: push.tag,
+            digest: push.digest,
+            registry: push.registry,
+            url: push.url,
+            actor: push.actor
+        }
+    };
+}
+
+export class RegistryChangeEventMapper {
+    // Layer blobs are pushed (and notified) separately from the manifest
+    static isManifestPush(event: { action?: string; target?: { mediaType?: string } } | null | undefined): boolean {
+        return event?.action === 'push' && MANIFEST_MEDIA_TYPES.includes(event.target?.mediaType ?? '');
+    }
+
+    // Docker Registry v2 notification envelope, one change event per tagged manifest push
+    static mapDockerRegistryEnvelope(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent[] | null {
+        const events: any[] = Array.isArray(payload.events) ? payload.events : [];
+        const pushes = events.filter(e => RegistryChangeEventMapper.isManifestPush(e));
+
+        return pushes.map(e => imagePushEvent({
+            repository: e.target.repository,
+            tag: e.target.tag,
+            digest: e.target.digest,
+            occurred_at: new Date(e.timestamp),
+            actor: e.actor?.name,
+            registry: e.request?.host,
+            url: e.target.url
+        }, rules));
+    }
+
+    // Harbor PUSH_ARTIFACT webhook, one change event per pushed tag
+    static mapHarborEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent[] | null {
+        if (payload.type !== 'PUSH_ARTIFACT') return null;
+
+        const repository = payload.event_data?.repository;
+        const resources: any[] = payload.event_data?.resources || [];
+
+        return resources.map(resource => imagePushEvent({
+            repository: repository?.repo_full_name || repository?.name,
+            tag: resource.tag,
+            digest: resource.digest,
+            // occur_at is in seconds
+            occurred_at: new Date(payload.occur_at * 1000),
+            actor: payload.operator,
+            url: resource.resource_url
+        }, rules));
+    }
+}
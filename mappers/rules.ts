@@ -0,0 +1,86 @@
+import { MappingRule, MappingRuleKind } from '../models/MappingRule';
+import { globMatch } from '../utils/globMatch';
+import { NormalizedChangeEvent } from './types';
+
+// Every file path added, modified or removed by a push's commits, without repeats
+export function changedPaths(commits: any[] = []): string[] {
+    const paths = new Set<string>();
+
+    for (const commit of commits) {
+        for (const path of [...(commit.added || []), ...(commit.modified || []), ...(commit.removed || [])]) {
+            paths.add(path);
+        }
+    }
+
+    return [...paths];
+}
+
+// An organization's mapping rules, handed to the mappers at ingestion time.
+// Every lookup returns undefined when no rule matches so mappers keep their own defaults.
+export class MappingRules {
+    private rules: MappingRule[];
+
+    constructor(rules: MappingRule[] = []) {
+        // Expected in evaluation order, see MappingRuleModel.getAll
+        this.rules = rules;
+    }
+
+    static none(): MappingRules {
+        return new MappingRules();
+    }
+
+    environmentForBranch(branch: string | undefined): string | undefined {
+        return this.match('branch', branch);
+    }
+
+    environmentForName(environment: string | undefined): string | undefined {
+        return this.match('environment', environment);
+    }
+
+    serviceForRepository(repository: string | undefined): string | undefined {
+        return this.match('repository', repository);
+    }
+
+    serviceForWorkspace(workspace: string | undefined): string | undefined {
+        return this.match('workspace', workspace);
+    }
+
+    // Split a push into one event per service its changed paths belong to, each carrying the
+    // paths it touched in meta.paths. Returns the event unchanged when no path rule matches.
+    splitByPaths(event: NormalizedChangeEvent, paths: string[]): NormalizedChangeEvent[] {
+        const pathsByService = new Map<string, string[]>();
+
+        for (const path of paths) {
+            const service = this.serviceForPath(path);
+            if (!service) continue;
+
+            pathsByService.set(service, [...(pathsByService.get(service) || []), path]);
+        }
+
+        if (pathsByService.size === 0) return [event];
+
+        return [...pathsByService].map(([service, servicePaths]) => ({
+            ...event,
+            service,
+            meta: { ...event.meta, paths: servicePaths }
+        }));
+    }
+
+    // Path rules match on whole directory prefixes, so "services/api" does not match "services/api-gateway/"
+    private serviceForPath(path: string): string | undefined {
+        const normalizedPath = path.replace(/^\/+/, '');
+
+        return this.rules.find(rule => {
+            if (rule.kind !== 'path') return false;
+
+            const prefix = rule.pattern.replace(/^\/+/, '').replace(/\/+$/, '');
+            return normalizedPath === prefix || normalizedPath.startsWith(`${prefix}/`);
+        })?.target;
+    }
+
+    private match(kind: MappingRuleKind, value: string | undefined): string | undefined {
+        if (!value) return undefined;
+
+        return this.rules.find(rule => rule.kind === kind && globMatch(rule.pattern, value))?.target;
+    }
+}
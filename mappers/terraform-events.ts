@@ -0,0 +1,126 @@
+import { NormalizedChangeEvent } from './types';
+import { MappingRules } from './rules';
+
+interface ResourceChanges {
+    created: string[];
+    updated: string[];
+    replaced: string[];
+    destroyed: string[];
+}
+
+// Group a JSON plan's resource_changes by action. A replace shows up as ["delete", "create"]
+// (or ["create", "delete"] with create_before_destroy).
+function groupResourceChanges(resourceChanges: any[]): ResourceChanges {
+    const grouped: ResourceChanges = { created: [], updated: [], replaced: [], destroyed: [] };
+
+    for (const rc of resourceChanges) {
+        const actions: string[] = rc.change?.actions || [];
+
+        if (actions.includes('delete') && actions.includes('create')) grouped.replaced.push(rc.address);
+        else if (actions.includes('create')) grouped.created.push(rc.address);
+        else if (actions.includes('update')) grouped.updated.push(rc.address);
+        else if (actions.includes('delete')) grouped.destroyed.push(rc.address);
+    }
+
+    return grouped;
+}
+
+// Most common value of a tag across the changed resources
+function mostCommonTag(resourceChanges: any[], names: string[]): string | undefined {
+    const counts = new Map<string, number>();
+
+    for (const rc of resourceChanges) {
+        const tags = rc.change?.after?.tags_all || rc.change?.after?.tags || rc.change?.before?.tags || {};
+        const value = names.map(name => tags[name]).find(v => typeof v === 'string' && v.length > 0);
+        if (value) counts.set(value, (counts.get(value) || 0) + 1);
+    }
+
+    return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+// change_summary operations, `terraform plan -json` sends the same message as apply and destroy
+const SUMMARY_OPERATIONS = ['plan', 'apply', 'destroy'];
+
+export class TerraformChangeEventMapper {
+    // Accepts `terraform show -json` plan output or the change_summary message of `terraform plan|apply|destroy -json`,
+    // either bare or wrapped as { workspace, service?, environment?, plan | apply }.
+    static mapRunEvent(payload: any, rules: MappingRules = MappingRules.none()): NormalizedChangeEvent | null {
+        const plan = payload.plan || (payload.resource_changes ? payload : null);
+        const summary = payload.apply || (payload.type === 'change_summary' ? payload : null);
+
+        if (!plan && !summary) {
+            throw new Error('Expected a Terraform JSON plan or a change_summary');
+        }
+
+        const summaryOperation = summary?.changes?.operation;
+        if (summary && !SUMMARY_OPERATIONS.includes(summaryOperation)) {
+            throw new Error(`change_summary operation must be one of: ${SUMMARY_OPERATIONS.join(', ')}`);
+        }
+
+        // Only an apply or destroy summary means the change happened, a plan summary is intent like a plan
+        const applied = summary && summaryOperation !== 'plan';
+
+        const workspace = payload.workspace;
+        const resourceChanges: any[] = (plan?.resource_changes || []).filter(
+            (rc: any) => !(rc.change?.actions || []).every((a: string) => a === 'no-op' || a === 'read')
+        );
+
+        let counts: { create: number; update: number; replace: number; destroy: number };
+        let resources: ResourceChanges | undefined;
+
+        if (summary) {
+            // Summaries only carry totals, a replace counts as one add and one remove
+            const changes = summary.changes;
+            counts = { create: changes.add || 0, update: changes.change || 0, replace: 0, destroy: changes.remove || 0 };
+        } else {
+            resources = groupResourceChanges(resourceChanges);
+            counts = {
+                create: resources.created.length,
+                update: resources.updated.length,
+                replace: resources.replaced.length,
+                destroy: resources.destroyed.length
+            };
+        }
+
+        if (counts.create + counts.update + counts.replace + counts.destroy === 0) return null;
+
+        const operation: string = summary ? summaryOperation : 'plan';
+        const target = workspace ? ` in workspace ${workspace}` : '';
+        const parts = [`${counts.create} created`, `${counts.update} updated`];
+        if (counts.replace > 0) parts.push(`${counts.replace} replaced`);
+        parts.push(`${counts.destroy} destroyed`);
+
+        const service = payload.service ||
+            mostCommonTag(resourceChanges, ['service', 'Service']) ||
+            rules.serviceForWorkspace(workspace) ||
+            workspace;
+
+        const environment = payload.environment ||
+            rules.environmentForName(workspace) ||
+            mostCommonTag(resourceChanges, ['environment', 'Environment', 'env']) ||
+            workspace;
+
+        if (!environment) {
+            throw new Error('environment is required when the run has no workspace or environment tag');
+        }
+
+        return {
+            occurred_at: new Date(payload.occurred_at || summary?.['@timestamp'] || plan?.timestamp || Date.now()),
+            service,
+            environment,
+            type: 'infrastructure',
+            summary: `Terraform ${operation}${target}: ${parts.join(', ')}`,
+            confidence: applied ? 0.9 : 0.4,
+            meta: {
+                operation,
+                workspace,
+                terraform_version: plan?.terraform_version || payload.terraform_version,
+                counts,
+                resources,
+                breaking_change: counts.destroy + counts.replace > 0,
+                commit: payload.commit,
+                run_url: payload.run_url
+            }
+        };
+    }
+}
@@ -0,0 +1,10 @@
+// Normalized shape every SCM/tool mapper produces before it is stored as a change event
+export interface NormalizedChangeEvent {
+    occurred_at: Date;
+    service: string;
+    environment: string;
+    type: string;
+    summary: string;
+    confidence: number;
+    meta: Record<string, any>;
+}
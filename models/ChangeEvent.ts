@@ -3,6 +3,8 @@ import { FastifyInstance } from 'fastify';
 export interface ChangeEvent {
     id: string;
     organization_id: string;
+    // The column stored rows actually carry the organization in
+    org_id: string;
     occurred_at: Date;
     service: string;
     environment: string;
@@ -10,6 +12,8 @@ export interface ChangeEvent {
     source: string;
     summary: string;
     meta: Record<string, any>;
+    confidence: number;
+    idempotency_key: string | null;
     created_at: Date;
 }
 
@@ -23,6 +27,19 @@ export interface CreateChangeEventData {
     source: string;
     summary: string;
     meta?: Record<string, any>;
+    confidence?: number;
+    idempotency_key?: string;
+}
+
+// Fields that identify the same change reported twice
+export interface NaturalKey {
+    organization_id: string;
+    service: string;
+    environment: string;
+    type: string;
+    commit: string;
+    occurred_at: Date;
+    window_seconds: number;
 }
 
 export interface UpdateChangeEventData {
@@ -33,6 +50,7 @@ export interface UpdateChangeEventData {
     source?: string;
     summary?: string;
     meta?: Record<string, any>;
+    confidence?: number;
 }
 
 export interface ChangeEventFilters {
@@ -41,12 +59,25 @@ export interface ChangeEventFilters {
     environment?: string;
     type?: string;
     source?: string;
+    min_confidence?: number;
+    digest?: string;
     from_date?: Date;
     to_date?: Date;
     limit?: number;
     offset?: number;
 }
 
+// Releases ($3 types) of an organization ($1) in some environments ($2) at or before $4. Events that carry
+// a deployment_id are lifecycle states and only count once they reach one of the $5 states.
+// Failed GitOps syncs and Helm releases are skipped.
+const LIVE_RELEASE_CONDITIONS = `org_id = $1 AND environment = ANY($2::text[]) AND type = ANY($3::text[]) AND occurred_at <= $4
+           AND COALESCE(meta->>'outcome', '') <> 'failed'
+           AND lower(COALESCE(meta->>'status', '')) <> 'failed'
+           AND (
+             (meta->>'deployment_id' IS NULL AND meta->>'state' IS NULL)
+             OR lower(meta->>'state') = ANY($5::text[])
+           )`;
+
 export class ChangeEventModel {
     private fastify: FastifyInstance;
 
@@ -87,6 +118,18 @@ export class ChangeEventModel {
                 values.push(filters.source);
             }
 
+            if (filters.min_confidence !== undefined) {
+                query += ` AND confidence >= $${paramCount++}`;
+                values.push(filters.min_confidence);
+            }
+
+            // Image pushes carry meta.digest, deployments reference meta.digests
+            if (filters.digest) {
+                query += ` AND (meta @> jsonb_build_object('digest', $${paramCount}::text) OR meta->'digests' ? $${paramCount})`;
+                paramCount++;
+                values.push(filters.digest);
+            }
+
             if (filters.from_date) {
                 query += ` AND occurred_at >= $${paramCount++}`;
                 values.push(filters.from_date);
@@ -128,13 +171,16 @@ export class ChangeEventModel {
         }
     }
 
-    async create(eventData: CreateChangeEventData): Promise<ChangeEvent> {
+    async create(eventData: CreateChangeEventData): Promise<ChangeEvent | null> {
         const client = await this.fastify.pg.connect();
 
         try {
+            // With an idempotency key a concurrent duplicate insert returns no row instead of failing
             const { rows } = await client.query(
-                `INSERT INTO change_events (id, org_id, occurred_at, service, environment, type, source, summary, meta) 
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+                `INSERT INTO change_events (id, org_id, occurred_at, service, environment, type, source, summary, meta, confidence, idempotency_key) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (org_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+         RETURNING *`,
                 [
                     eventData.id || null, // Let PostgreSQL generate UUID if not provided
                     eventData.organization_id,
@@ -144,10 +190,230 @@ export class ChangeEventModel {
                     eventData.type,
                     eventData.source,
                     eventData.summary,
-                    JSON.stringify(eventData.meta || {})
+                    JSON.stringify(eventData.meta || {}),
+                    eventData.confidence ?? 1,
+                    eventData.idempotency_key || null
                 ]
             );
-            return rows[0];
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Multi-row insert, atomic for the whole batch. Rows skipped by an idempotency key conflict are not returned.
+    async createMany(events: CreateChangeEventData[]): Promise<ChangeEvent[]> {
+        if (events.length === 0) return [];
+
+        const client = await this.fastify.pg.connect();
+        try {
+            const values: any[] = [];
+            const placeholders = events.map((eventData, i) => {
+                const offset = i * 11;
+                values.push(
+                    eventData.id || null,
+                    eventData.organization_id,
+                    eventData.occurred_at,
+                    eventData.service,
+                    eventData.environment,
+                    eventData.type,
+                    eventData.source,
+                    eventData.summary,
+                    JSON.stringify(eventData.meta || {}),
+                    eventData.confidence ?? 1,
+                    eventData.idempotency_key || null
+                );
+                return `(${Array.from({ length: 11 }, (_, j) => `$${offset + j + 1}`).join(', ')})`;
+            });
+
+            const { rows } = await client.query(
+                `INSERT INTO change_events (id, org_id, occurred_at, service, environment, type, source, summary, meta, confidence, idempotency_key) 
+         VALUES ${placeholders.join(', ')}
+         ON CONFLICT (org_id, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+         RETURNING *`,
+                values
+            );
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    async getByIdempotencyKeys(organizationId: string, idempotencyKeys: string[]): Promise<ChangeEvent[]> {
+        if (idempotencyKeys.length === 0) return [];
+
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                'SELECT * FROM change_events WHERE org_id = $1 AND idempotency_key = ANY($2::text[])',
+                [organizationId, idempotencyKeys]
+            );
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    async getByIdempotencyKey(organizationId: string, idempotencyKey: string): Promise<ChangeEvent | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                'SELECT * FROM change_events WHERE org_id = $1 AND idempotency_key = $2',
+                [organizationId, idempotencyKey]
+            );
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Find an earlier event for the same service/environment/type/commit within the window
+    async findByNaturalKey(key: NaturalKey): Promise<ChangeEvent | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `SELECT * FROM change_events
+         WHERE org_id = $1 AND service = $2 AND environment = $3 AND type = $4
+           AND meta @> jsonb_build_object('commit', $5::text)
+           AND occurred_at BETWEEN $6::timestamptz - make_interval(secs => $7)
+                               AND $6::timestamptz + make_interval(secs => $7)
+         ORDER BY created_at ASC
+         LIMIT 1`,
+                [
+                    key.organization_id,
+                    key.service,
+                    key.environment,
+                    key.type,
+                    key.commit,
+                    key.occurred_at,
+                    key.window_seconds
+                ]
+            );
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Earliest event from one of the given sources recorded for a commit
+    async findFirstByCommit(organizationId: string, commit: string, sources: string[]): Promise<ChangeEvent | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `SELECT * FROM change_events
+         WHERE org_id = $1 AND meta @> jsonb_build_object('commit', $2::text) AND source = ANY($3::text[])
+         ORDER BY occurred_at ASC
+         LIMIT 1`,
+                [organizationId, commit, sources]
+            );
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Events of a service in the given environments strictly between two instants, oldest first
+    async findBetween(
+        organizationId: string,
+        service: string,
+        environments: string[],
+        from: Date,
+        to: Date,
+        limit: number
+    ): Promise<ChangeEvent[]> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `SELECT * FROM change_events
+         WHERE org_id = $1 AND service = $2 AND environment = ANY($3::text[]) AND occurred_at > $4 AND occurred_at < $5
+         ORDER BY occurred_at ASC
+         LIMIT $6`,
+                [organizationId, service, environments, from, to, limit]
+            );
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Every event recorded for a commit, oldest first. A full SHA is matched exactly so the containment
+    // check can use the GIN index on meta. An abbreviated SHA is matched as a prefix of the stored one.
+    async findByCommit(organizationId: string, commit: string): Promise<ChangeEvent[]> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const match = commit.length === 40
+                ? `meta @> jsonb_build_object('commit', $2::text)`
+                : `lower(meta->>'commit') LIKE $2::text || '%'`;
+
+            const { rows } = await client.query(
+                `SELECT * FROM change_events
+         WHERE org_id = $1 AND ${match}
+         ORDER BY occurred_at ASC`,
+                [organizationId, commit]
+            );
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Latest image push for a manifest digest
+    async findImagePushByDigest(organizationId: string, digest: string): Promise<ChangeEvent | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `SELECT * FROM change_events
+         WHERE org_id = $1 AND type = 'image-push' AND meta @> jsonb_build_object('digest', $2::text)
+         ORDER BY occurred_at DESC
+         LIMIT 1`,
+                [organizationId, digest]
+            );
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    // The latest release of each service in the environment at or before `at`
+    async findLatestReleases(
+        organizationId: string,
+        environment: string,
+        types: string[],
+        liveStates: string[],
+        at: Date
+    ): Promise<ChangeEvent[]> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `SELECT DISTINCT ON (service) * FROM change_events
+         WHERE ${LIVE_RELEASE_CONDITIONS}
+         ORDER BY service, occurred_at DESC`,
+                [organizationId, [environment], types, liveStates, at]
+            );
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Every release of a service in the given environments at or before `at`, oldest first
+    async findReleaseHistory(
+        organizationId: string,
+        service: string,
+        environments: string[],
+        types: string[],
+        liveStates: string[],
+        at: Date
+    ): Promise<ChangeEvent[]> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `SELECT * FROM change_events
+         WHERE ${LIVE_RELEASE_CONDITIONS} AND service = $6
+         ORDER BY occurred_at ASC`,
+                [organizationId, environments, types, liveStates, at, service]
+            );
+            return rows;
         } finally {
             client.release();
         }
@@ -195,6 +461,11 @@ export class ChangeEventModel {
                 values.push(JSON.stringify(eventData.meta));
             }
 
+            if (eventData.confidence !== undefined) {
+                setParts.push(`confidence = $${paramCount++}`);
+                values.push(eventData.confidence);
+            }
+
             if (setParts.length === 0) {
                 return this.getById(id);
             }
@@ -252,6 +523,18 @@ export class ChangeEventModel {
                 values.push(filters.source);
             }
 
+            if (filters.min_confidence !== undefined) {
+                query += ` AND confidence >= $${paramCount++}`;
+                values.push(filters.min_confidence);
+            }
+
+            // Image pushes carry meta.digest, deployments reference meta.digests
+            if (filters.digest) {
+                query += ` AND (meta @> jsonb_build_object('digest', $${paramCount}::text) OR meta->'digests' ? $${paramCount})`;
+                paramCount++;
+                values.push(filters.digest);
+            }
+
             if (filters.from_date) {
                 query += ` AND occurred_at >= $${paramCount++}`;
                 values.push(filters.from_date);
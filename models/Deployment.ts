@@ -0,0 +1,209 @@
+import { FastifyInstance } from 'fastify';
+
+export type DeploymentState = 'queued' | 'in_progress' | 'success' | 'failure' | 'error' | 'inactive';
+
+export interface DeploymentStateEntry {
+    state: DeploymentState;
+    at: string;
+    change_event_id: string;
+}
+
+// Timestamps derived from the recorded states
+export interface DeploymentLifecycle {
+    state: DeploymentState;
+    queued_at: Date | null;
+    started_at: Date | null;
+    live_at: Date | null;
+    finished_at: Date | null;
+    duration_seconds: number | null;
+}
+
+export interface Deployment extends DeploymentLifecycle {
+    id: string;
+    organization_id: string;
+    source: string;
+    deployment_id: string;
+    service: string;
+    environment: string;
+    commit_sha: string | null;
+    states: DeploymentStateEntry[];
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface RecordDeploymentStateData {
+    organization_id: string;
+    source: string;
+    deployment_id: string;
+    service: string;
+    environment: string;
+    commit_sha?: string;
+    entry: DeploymentStateEntry;
+}
+
+export interface DeploymentFilters {
+    organization_id?: string;
+    service?: string;
+    environment?: string;
+    state?: string;
+    from_date?: Date;
+    to_date?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+export class DeploymentModel {
+    private fastify: FastifyInstance;
+
+    constructor(fastify: FastifyInstance) {
+        this.fastify = fastify;
+    }
+
+    // Most recently updated first. The date filters apply to when the deployment went live,
+    // or to when it was last updated if it never did.
+    async getAll(filters: DeploymentFilters = {}): Promise<Deployment[]> {
+        const client = await this.fastify.pg.connect();
+        try {
+            let query = 'SELECT * FROM deployments WHERE 1=1';
+            const values: any[] = [];
+            let paramCount = 1;
+
+            // Apply filters
+            if (filters.organization_id) {
+                query += ` AND organization_id = $${paramCount++}`;
+                values.push(filters.organization_id);
+            }
+
+            if (filters.service) {
+                query += ` AND service = $${paramCount++}`;
+                values.push(filters.service);
+            }
+
+            if (filters.environment) {
+                query += ` AND environment = $${paramCount++}`;
+                values.push(filters.environment);
+            }
+
+            if (filters.state) {
+                query += ` AND state = $${paramCount++}`;
+                values.push(filters.state);
+            }
+
+            if (filters.from_date) {
+                query += ` AND COALESCE(live_at, updated_at) >= $${paramCount++}`;
+                values.push(filters.from_date);
+            }
+
+            if (filters.to_date) {
+                query += ` AND COALESCE(live_at, updated_at) <= $${paramCount++}`;
+                values.push(filters.to_date);
+            }
+
+            query += ' ORDER BY updated_at DESC';
+
+            if (filters.limit) {
+                query += ` LIMIT $${paramCount++}`;
+                values.push(filters.limit);
+            }
+
+            if (filters.offset) {
+                query += ` OFFSET $${paramCount++}`;
+                values.push(filters.offset);
+            }
+
+            const { rows } = await client.query(query, values);
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    async getById(id: string): Promise<Deployment | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query('SELECT * FROM deployments WHERE id = $1', [id]);
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    // keys are "<source>:<deployment_id>"
+    async getByKeys(organizationId: string, keys: string[]): Promise<Deployment[]> {
+        if (keys.length === 0) return [];
+
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `SELECT * FROM deployments WHERE organization_id = $1 AND source || ':' || deployment_id = ANY($2)`,
+                [organizationId, keys]
+            );
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Append a state to the deployment (creating it on its first state) and store the lifecycle
+    // derived from all its states. The row stays locked in between, so concurrent deliveries
+    // for the same deployment cannot overwrite each other's states. A state whose change event
+    // is already recorded is not appended again, so retried deliveries can safely call this.
+    async recordState(
+        data: RecordDeploymentStateData,
+        summarize: (states: DeploymentStateEntry[]) => DeploymentLifecycle
+    ): Promise<Deployment> {
+        const client = await this.fastify.pg.connect();
+        try {
+            await client.query('BEGIN');
+
+            const { rows: [appended] } = await client.query(
+                `INSERT INTO deployments (organization_id, source, deployment_id, service, environment, commit_sha, state, states)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (organization_id, source, deployment_id) DO UPDATE
+         SET states = CASE
+               WHEN deployments.states @> jsonb_build_array(jsonb_build_object('change_event_id', $9::text))
+               THEN deployments.states
+               ELSE deployments.states || EXCLUDED.states
+             END,
+             commit_sha = COALESCE(deployments.commit_sha, EXCLUDED.commit_sha)
+         RETURNING *`,
+                [
+                    data.organization_id,
+                    data.source,
+                    data.deployment_id,
+                    data.service,
+                    data.environment,
+                    data.commit_sha || null,
+                    data.entry.state,
+                    JSON.stringify([data.entry]),
+                    data.entry.change_event_id
+                ]
+            );
+
+            const lifecycle = summarize(appended.states);
+
+            const { rows: [updated] } = await client.query(
+                `UPDATE deployments
+         SET state = $1, queued_at = $2, started_at = $3, live_at = $4, finished_at = $5, duration_seconds = $6
+         WHERE id = $7 RETURNING *`,
+                [
+                    lifecycle.state,
+                    lifecycle.queued_at,
+                    lifecycle.started_at,
+                    lifecycle.live_at,
+                    lifecycle.finished_at,
+                    lifecycle.duration_seconds,
+                    appended.id
+                ]
+            );
+
+            await client.query('COMMIT');
+            return updated;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+}
@@ -0,0 +1,173 @@
+import { FastifyInstance } from 'fastify';
+import crypto from 'crypto';
+import { WebhookMapping } from '../mappers/generic-webhook';
+
+export interface InboundWebhook {
+    id: string;
+    organization_id: string;
+    name: string;
+    secret: string;
+    mapping: WebhookMapping;
+    enabled: boolean;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface CreateInboundWebhookData {
+    organization_id: string;
+    name: string;
+    mapping: WebhookMapping;
+}
+
+export interface UpdateInboundWebhookData {
+    name?: string;
+    mapping?: WebhookMapping;
+    enabled?: boolean;
+}
+
+export interface InboundWebhookFilters {
+    organization_id?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export class InboundWebhookModel {
+    private fastify: FastifyInstance;
+
+    constructor(fastify: FastifyInstance) {
+        this.fastify = fastify;
+    }
+
+    // Generate the shared secret used to sign or authenticate deliveries
+    static generateSecret(): string {
+        return crypto.randomBytes(32).toString('hex');
+    }
+
+    async getAll(filters: InboundWebhookFilters = {}): Promise<InboundWebhook[]> {
+        const client = await this.fastify.pg.connect();
+        try {
+            let query = 'SELECT * FROM inbound_webhooks WHERE 1=1';
+            const values: any[] = [];
+            let paramCount = 1;
+
+            // Apply filters
+            if (filters.organization_id) {
+                query += ` AND organization_id = $${paramCount++}`;
+                values.push(filters.organization_id);
+            }
+
+            // Order by created_at descending
+            query += ' ORDER BY created_at DESC';
+
+            // Apply pagination
+            if (filters.limit) {
+                query += ` LIMIT $${paramCount++}`;
+                values.push(filters.limit);
+            }
+
+            if (filters.offset) {
+                query += ` OFFSET $${paramCount++}`;
+                values.push(filters.offset);
+            }
+
+            const { rows } = await client.query(query, values);
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    async count(filters: Omit<InboundWebhookFilters, 'limit' | 'offset'> = {}): Promise<number> {
+        const client = await this.fastify.pg.connect();
+        try {
+            let query = 'SELECT COUNT(*) as count FROM inbound_webhooks WHERE 1=1';
+            const values: any[] = [];
+            let paramCount = 1;
+
+            if (filters.organization_id) {
+                query += ` AND organization_id = $${paramCount++}`;
+                values.push(filters.organization_id);
+            }
+
+            const { rows } = await client.query(query, values);
+            return parseInt(rows[0].count);
+        } finally {
+            client.release();
+        }
+    }
+
+    async getById(id: string): Promise<InboundWebhook | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query('SELECT * FROM inbound_webhooks WHERE id = $1', [id]);
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    async create(webhookData: CreateInboundWebhookData): Promise<InboundWebhook> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `INSERT INTO inbound_webhooks (organization_id, name, secret, mapping) 
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+                [
+                    webhookData.organization_id,
+                    webhookData.name,
+                    InboundWebhookModel.generateSecret(),
+                    JSON.stringify(webhookData.mapping)
+                ]
+            );
+            return rows[0];
+        } finally {
+            client.release();
+        }
+    }
+
+    async update(id: string, webhookData: UpdateInboundWebhookData): Promise<InboundWebhook | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const setParts: string[] = [];
+            const values: any[] = [];
+            let paramCount = 1;
+
+            if (webhookData.name !== undefined) {
+                setParts.push(`name = $${paramCount++}`);
+                values.push(webhookData.name);
+            }
+
+            if (webhookData.mapping !== undefined) {
+                setParts.push(`mapping = $${paramCount++}`);
+                values.push(JSON.stringify(webhookData.mapping));
+            }
+
+            if (webhookData.enabled !== undefined) {
+                setParts.push(`enabled = $${paramCount++}`);
+                values.push(webhookData.enabled);
+            }
+
+            if (setParts.length === 0) {
+                return this.getById(id);
+            }
+
+            values.push(id);
+            const query = `UPDATE inbound_webhooks SET ${setParts.join(', ')} WHERE id = $${paramCount} RETURNING *`;
+
+            const { rows } = await client.query(query, values);
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rowCount } = await client.query('DELETE FROM inbound_webhooks WHERE id = $1', [id]);
+            return (rowCount ?? 0) > 0;
+        } finally {
+            client.release();
+        }
+    }
+}
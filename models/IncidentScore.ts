@@ -0,0 +1,99 @@
+import { FastifyInstance } from 'fastify';
+import { PoolClient } from 'pg';
+
+export interface IncidentScore {
+    id: string;
+    organization_id: string;
+    change_event_id: string;
+    incident_at: Date;
+    incident_service: string | null;
+    incident_environment: string | null;
+    severity: string;
+    score: number;
+    level: string;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface RecordIncidentScoreData {
+    organization_id: string;
+    change_event_id: string;
+    incident_at: Date;
+    incident_service?: string;
+    incident_environment?: string;
+    severity: string;
+    score: number;
+    level: string;
+}
+
+// 8 bind parameters per row, well under Postgres's 65535 limit per statement
+const RECORD_CHUNK_SIZE = 1000;
+
+export class IncidentScoreModel {
+    private fastify: FastifyInstance;
+
+    constructor(fastify: FastifyInstance) {
+        this.fastify = fastify;
+    }
+
+    // Insert or refresh the scores of one scoring run, in chunks of RECORD_CHUNK_SIZE rows per statement
+    async recordMany(scores: RecordIncidentScoreData[]): Promise<void> {
+        if (scores.length === 0) return;
+
+        const client = await this.fastify.pg.connect();
+        try {
+            for (let start = 0; start < scores.length; start += RECORD_CHUNK_SIZE) {
+                await this.insertChunk(client, scores.slice(start, start + RECORD_CHUNK_SIZE));
+            }
+        } finally {
+            client.release();
+        }
+    }
+
+    private async insertChunk(client: PoolClient, scores: RecordIncidentScoreData[]): Promise<void> {
+        const values: any[] = [];
+        const placeholders = scores.map((scoreData, i) => {
+            const offset = i * 8;
+            values.push(
+                scoreData.organization_id,
+                scoreData.change_event_id,
+                scoreData.incident_at,
+                scoreData.incident_service || null,
+                scoreData.incident_environment || null,
+                scoreData.severity,
+                Math.round(scoreData.score),
+                scoreData.level
+            );
+            return `(${Array.from({ length: 8 }, (_, j) => `$${offset + j + 1}`).join(', ')})`;
+        });
+
+        await client.query(
+            `INSERT INTO incident_scores (organization_id, change_event_id, incident_at, incident_service, incident_environment, severity, score, level)
+         VALUES ${placeholders.join(', ')}
+         ON CONFLICT (organization_id, incident_at, change_event_id) DO UPDATE
+         SET incident_service = EXCLUDED.incident_service,
+             incident_environment = EXCLUDED.incident_environment,
+             severity = EXCLUDED.severity,
+             score = EXCLUDED.score,
+             level = EXCLUDED.level`,
+            values
+        );
+    }
+
+    async getByChangeEventIds(organizationId: string, changeEventIds: string[]): Promise<IncidentScore[]> {
+        if (changeEventIds.length === 0) return [];
+
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `SELECT * FROM incident_scores
+         WHERE organization_id = $1 AND change_event_id = ANY($2::uuid[])
+         ORDER BY incident_at ASC, score DESC`,
+                [organizationId, changeEventIds]
+            );
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+}
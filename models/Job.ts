@@ -0,0 +1,214 @@
+import { FastifyInstance } from 'fastify';
+import { PoolClient } from 'pg';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface Job {
+    id: string;
+    organization_id: string | null;
+    type: string;
+    payload: Record<string, any>;
+    status: JobStatus;
+    attempts: number;
+    max_attempts: number;
+    run_at: Date;
+    locked_at: Date | null;
+    last_error: string | null;
+    completed_at: Date | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface CreateJobData {
+    organization_id?: string | null;
+    type: string;
+    payload: Record<string, any>;
+    max_attempts?: number;
+    run_at?: Date;
+}
+
+export interface JobFilters {
+    organization_id?: string;
+    type?: string;
+    status?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export class JobModel {
+    private fastify: FastifyInstance;
+
+    constructor(fastify: FastifyInstance) {
+        this.fastify = fastify;
+    }
+
+    async getAll(filters: JobFilters = {}): Promise<Job[]> {
+        const client = await this.fastify.pg.connect();
+        try {
+            let query = 'SELECT * FROM jobs WHERE 1=1';
+            const values: any[] = [];
+            let paramCount = 1;
+
+            // Apply filters
+            if (filters.organization_id) {
+                query += ` AND organization_id = $${paramCount++}`;
+                values.push(filters.organization_id);
+            }
+
+            if (filters.type) {
+                query += ` AND type = $${paramCount++}`;
+                values.push(filters.type);
+            }
+
+            if (filters.status) {
+                query += ` AND status = $${paramCount++}`;
+                values.push(filters.status);
+            }
+
+            // Order by updated_at descending
+            query += ' ORDER BY updated_at DESC';
+
+            // Apply pagination
+            if (filters.limit) {
+                query += ` LIMIT $${paramCount++}`;
+                values.push(filters.limit);
+            }
+
+            if (filters.offset) {
+                query += ` OFFSET $${paramCount++}`;
+                values.push(filters.offset);
+            }
+
+            const { rows } = await client.query(query, values);
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    async getById(id: string): Promise<Job | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query('SELECT * FROM jobs WHERE id = $1', [id]);
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    async enqueue(jobData: CreateJobData, transaction?: PoolClient): Promise<Job> {
+        const client = transaction || await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `INSERT INTO jobs (organization_id, type, payload, max_attempts, run_at) 
+         VALUES ($1, $2, $3, $4, COALESCE($5, now())) RETURNING *`,
+                [
+                    jobData.organization_id || null,
+                    jobData.type,
+                    JSON.stringify(jobData.payload || {}),
+                    jobData.max_attempts || 5,
+                    jobData.run_at || null
+                ]
+            );
+            return rows[0];
+        } finally {
+            if (!transaction) client.release();
+        }
+    }
+
+    // Claim the next runnable job. SKIP LOCKED lets several workers poll without blocking each other;
+    // running jobs whose lock is older than lockTimeoutMs are assumed to belong to a dead worker.
+    async claimNext(lockTimeoutMs: number): Promise<Job | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `UPDATE jobs SET status = 'running', locked_at = now(), attempts = attempts + 1
+         WHERE id = (
+             SELECT id FROM jobs
+             WHERE (status = 'pending' AND run_at <= now())
+                OR (status = 'running' AND locked_at < now() - make_interval(secs => $1::float8 / 1000))
+             ORDER BY run_at
+             FOR UPDATE SKIP LOCKED
+             LIMIT 1
+         )
+         RETURNING *`,
+                [lockTimeoutMs]
+            );
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    async complete(id: string): Promise<void> {
+        const client = await this.fastify.pg.connect();
+        try {
+            await client.query(
+                `UPDATE jobs SET status = 'completed', locked_at = NULL, last_error = NULL, completed_at = now()
+         WHERE id = $1`,
+                [id]
+            );
+        } finally {
+            client.release();
+        }
+    }
+
+    // Put the job back in the queue to run at retryAt, or dead-letter it when retryAt is null
+    async fail(id: string, error: string, retryAt: Date | null): Promise<void> {
+        const client = await this.fastify.pg.connect();
+        try {
+            await client.query(
+                `UPDATE jobs SET status = $1, locked_at = NULL, last_error = $2, run_at = COALESCE($3, run_at)
+         WHERE id = $4`,
+                [retryAt ? 'pending' : 'dead', error, retryAt, id]
+            );
+        } finally {
+            client.release();
+        }
+    }
+
+    // Move a dead-lettered job back to the queue with a fresh set of attempts
+    async retry(id: string): Promise<Job | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `UPDATE jobs SET status = 'pending', attempts = 0, run_at = now(), last_error = NULL
+         WHERE id = $1 AND status = 'dead' RETURNING *`,
+                [id]
+            );
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    async count(filters: Omit<JobFilters, 'limit' | 'offset'> = {}): Promise<number> {
+        const client = await this.fastify.pg.connect();
+        try {
+            let query = 'SELECT COUNT(*) as count FROM jobs WHERE 1=1';
+            const values: any[] = [];
+            let paramCount = 1;
+
+            // Apply same filters as getAll (excluding pagination)
+            if (filters.organization_id) {
+                query += ` AND organization_id = $${paramCount++}`;
+                values.push(filters.organization_id);
+            }
+
+            if (filters.type) {
+                query += ` AND type = $${paramCount++}`;
+                values.push(filters.type);
+            }
+
+            if (filters.status) {
+                query += ` AND status = $${paramCount++}`;
+                values.push(filters.status);
+            }
+
+            const { rows } = await client.query(query, values);
+            return parseInt(rows[0].count);
+        } finally {
+            client.release();
+        }
+    }
+}
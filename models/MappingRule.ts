@@ -0,0 +1,151 @@
+import { FastifyInstance } from 'fastify';
+
+export type MappingRuleKind = 'branch' | 'environment' | 'repository' | 'path' | 'workspace';
+
+export interface MappingRule {
+    id: string;
+    organization_id: string;
+    kind: MappingRuleKind;
+    pattern: string;
+    target: string;
+    priority: number;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface CreateMappingRuleData {
+    organization_id: string;
+    kind: MappingRuleKind;
+    pattern: string;
+    target: string;
+    priority?: number;
+}
+
+export interface UpdateMappingRuleData {
+    kind?: MappingRuleKind;
+    pattern?: string;
+    target?: string;
+    priority?: number;
+}
+
+export interface MappingRuleFilters {
+    organization_id?: string;
+    kind?: string;
+}
+
+export class MappingRuleModel {
+    private fastify: FastifyInstance;
+
+    constructor(fastify: FastifyInstance) {
+        this.fastify = fastify;
+    }
+
+    // Rules come back in evaluation order: highest priority first, oldest first on ties
+    async getAll(filters: MappingRuleFilters = {}): Promise<MappingRule[]> {
+        const client = await this.fastify.pg.connect();
+        try {
+            let query = 'SELECT * FROM mapping_rules WHERE 1=1';
+            const values: any[] = [];
+            let paramCount = 1;
+
+            // Apply filters
+            if (filters.organization_id) {
+                query += ` AND organization_id = $${paramCount++}`;
+                values.push(filters.organization_id);
+            }
+
+            if (filters.kind) {
+                query += ` AND kind = $${paramCount++}`;
+                values.push(filters.kind);
+            }
+
+            query += ' ORDER BY priority DESC, created_at ASC';
+
+            const { rows } = await client.query(query, values);
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    async getById(id: string): Promise<MappingRule | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query('SELECT * FROM mapping_rules WHERE id = $1', [id]);
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    async create(ruleData: CreateMappingRuleData): Promise<MappingRule> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `INSERT INTO mapping_rules (organization_id, kind, pattern, target, priority) 
+         VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+                [
+                    ruleData.organization_id,
+                    ruleData.kind,
+                    ruleData.pattern,
+                    ruleData.target,
+                    ruleData.priority || 0
+                ]
+            );
+            return rows[0];
+        } finally {
+            client.release();
+        }
+    }
+
+    async update(id: string, ruleData: UpdateMappingRuleData): Promise<MappingRule | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const setParts: string[] = [];
+            const values: any[] = [];
+            let paramCount = 1;
+
+            if (ruleData.kind !== undefined) {
+                setParts.push(`kind = $${paramCount++}`);
+                values.push(ruleData.kind);
+            }
+
+            if (ruleData.pattern !== undefined) {
+                setParts.push(`pattern = $${paramCount++}`);
+                values.push(ruleData.pattern);
+            }
+
+            if (ruleData.target !== undefined) {
+                setParts.push(`target = $${paramCount++}`);
+                values.push(ruleData.target);
+            }
+
+            if (ruleData.priority !== undefined) {
+                setParts.push(`priority = $${paramCount++}`);
+                values.push(ruleData.priority);
+            }
+
+            if (setParts.length === 0) {
+                return this.getById(id);
+            }
+
+            values.push(id);
+            const query = `UPDATE mapping_rules SET ${setParts.join(', ')} WHERE id = $${paramCount} RETURNING *`;
+
+            const { rows } = await client.query(query, values);
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rowCount } = await client.query('DELETE FROM mapping_rules WHERE id = $1', [id]);
+            return (rowCount ?? 0) > 0;
+        } finally {
+            client.release();
+        }
+    }
+}
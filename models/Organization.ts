@@ -5,6 +5,7 @@ export interface Organization {
     name: string;
     slug: string | null;
     plan: 'free' | 'starter' | 'pro' | 'enterprise';
+    dedupe_window_seconds: number | null;
     created_at: Date;
     updated_at: Date;
 }
@@ -20,6 +21,7 @@ export interface UpdateOrganizationData {
     name?: string;
     slug?: string;
     plan?: 'free' | 'starter' | 'pro' | 'enterprise';
+    dedupe_window_seconds?: number | null;
 }
 
 export interface OrganizationFilters {
@@ -142,6 +144,11 @@ export class OrganizationModel {
                 values.push(orgData.plan);
             }
 
+            if (orgData.dedupe_window_seconds !== undefined) {
+                setParts.push(`dedupe_window_seconds = $${paramCount++}`);
+                values.push(orgData.dedupe_window_seconds);
+            }
+
             if (setParts.length === 0) {
                 return this.getById(id);
             }
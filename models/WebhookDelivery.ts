@@ -0,0 +1,198 @@
+import { FastifyInstance } from 'fastify';
+import { PoolClient } from 'pg';
+
+export type WebhookDeliveryStatus = 'pending' | 'stored' | 'ignored' | 'rejected' | 'failed';
+
+export interface WebhookDelivery {
+    id: string;
+    organization_id: string;
+    provider: string;
+    delivery_id: string | null;
+    event_type: string;
+    headers: Record<string, any>;
+    raw_body: string;
+    status: WebhookDeliveryStatus;
+    error: string | null;
+    change_event_id: string | null;
+    inbound_webhook_id: string | null;
+    attempts: number;
+    received_at: Date;
+    processed_at: Date | null;
+}
+
+export interface CreateWebhookDeliveryData {
+    organization_id: string;
+    provider: string;
+    delivery_id?: string | null;
+    event_type: string;
+    headers: Record<string, any>;
+    raw_body: string;
+    inbound_webhook_id?: string | null;
+}
+
+export interface WebhookDeliveryOutcome {
+    status: WebhookDeliveryStatus;
+    error?: string | null;
+    change_event_id?: string | null;
+}
+
+export interface WebhookDeliveryFilters {
+    organization_id?: string;
+    provider?: string;
+    status?: string;
+    event_type?: string;
+    delivery_id?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export class WebhookDeliveryModel {
+    private fastify: FastifyInstance;
+
+    constructor(fastify: FastifyInstance) {
+        this.fastify = fastify;
+    }
+
+    async getAll(filters: WebhookDeliveryFilters = {}): Promise<WebhookDelivery[]> {
+        const client = await this.fastify.pg.connect();
+        try {
+            let query = 'SELECT * FROM webhook_deliveries WHERE 1=1';
+            const values: any[] = [];
+            let paramCount = 1;
+
+            // Apply filters
+            if (filters.organization_id) {
+                query += ` AND organization_id = $${paramCount++}`;
+                values.push(filters.organization_id);
+            }
+
+            if (filters.provider) {
+                query += ` AND provider = $${paramCount++}`;
+                values.push(filters.provider);
+            }
+
+            if (filters.status) {
+                query += ` AND status = $${paramCount++}`;
+                values.push(filters.status);
+            }
+
+            if (filters.event_type) {
+                query += ` AND event_type = $${paramCount++}`;
+                values.push(filters.event_type);
+            }
+
+            if (filters.delivery_id) {
+                query += ` AND delivery_id = $${paramCount++}`;
+                values.push(filters.delivery_id);
+            }
+
+            // Order by received_at descending
+            query += ' ORDER BY received_at DESC';
+
+            // Apply pagination
+            if (filters.limit) {
+                query += ` LIMIT $${paramCount++}`;
+                values.push(filters.limit);
+            }
+
+            if (filters.offset) {
+                query += ` OFFSET $${paramCount++}`;
+                values.push(filters.offset);
+            }
+
+            const { rows } = await client.query(query, values);
+            return rows;
+        } finally {
+            client.release();
+        }
+    }
+
+    async getById(id: string): Promise<WebhookDelivery | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query('SELECT * FROM webhook_deliveries WHERE id = $1', [id]);
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    async create(deliveryData: CreateWebhookDeliveryData, transaction?: PoolClient): Promise<WebhookDelivery> {
+        const client = transaction || await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `INSERT INTO webhook_deliveries (organization_id, provider, delivery_id, event_type, headers, raw_body, inbound_webhook_id) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+                [
+                    deliveryData.organization_id,
+                    deliveryData.provider,
+                    deliveryData.delivery_id || null,
+                    deliveryData.event_type,
+                    JSON.stringify(deliveryData.headers || {}),
+                    deliveryData.raw_body,
+                    deliveryData.inbound_webhook_id || null
+                ]
+            );
+            return rows[0];
+        } finally {
+            if (!transaction) client.release();
+        }
+    }
+
+    // Record the result of a processing attempt (first delivery or replay)
+    async recordOutcome(id: string, outcome: WebhookDeliveryOutcome): Promise<WebhookDelivery | null> {
+        const client = await this.fastify.pg.connect();
+        try {
+            const { rows } = await client.query(
+                `UPDATE webhook_deliveries
+         SET status = $1, error = $2, change_event_id = COALESCE($3, change_event_id),
+             attempts = attempts + 1, processed_at = now()
+         WHERE id = $4 RETURNING *`,
+                [outcome.status, outcome.error || null, outcome.change_event_id || null, id]
+            );
+            return rows[0] || null;
+        } finally {
+            client.release();
+        }
+    }
+
+    async count(filters: Omit<WebhookDeliveryFilters, 'limit' | 'offset'> = {}): Promise<number> {
+        const client = await this.fastify.pg.connect();
+        try {
+            let query = 'SELECT COUNT(*) as count FROM webhook_deliveries WHERE 1=1';
+            const values: any[] = [];
+            let paramCount = 1;
+
+            // Apply same filters as getAll (excluding pagination)
+            if (filters.organization_id) {
+                query += ` AND organization_id = $${paramCount++}`;
+                values.push(filters.organization_id);
+            }
+
+            if (filters.provider) {
+                query += ` AND provider = $${paramCount++}`;
+                values.push(filters.provider);
+            }
+
+            if (filters.status) {
+                query += ` AND status = $${paramCount++}`;
+                values.push(filters.status);
+            }
+
+            if (filters.event_type) {
+                query += ` AND event_type = $${paramCount++}`;
+                values.push(filters.event_type);
+            }
+
+            if (filters.delivery_id) {
+                query += ` AND delivery_id = $${paramCount++}`;
+                values.push(filters.delivery_id);
+            }
+
+            const { rows } = await client.query(query, values);
+            return parseInt(rows[0].count);
+        } finally {
+            client.release();
+        }
+    }
+}
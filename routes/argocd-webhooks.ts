@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { ArgoCdWebhookController } from '../controllers/ArgoCdWebhookController';
+
+export default async function argoCdWebhookRoutes(fastify: FastifyInstance) {
+    fastify.post(
+        '/webhooks/argocd/:orgId',
+        {
+            config: {
+                rawBody: true // stored on the delivery for replays
+            }
+        },
+        ArgoCdWebhookController.handle
+    );
+}
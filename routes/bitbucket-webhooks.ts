@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { BitbucketWebhookController } from '../controllers/BitbucketWebhookController';
+
+export default async function bitbucketWebhookRoutes(fastify: FastifyInstance) {
+    fastify.post(
+        '/webhooks/bitbucket/:orgId',
+        {
+            config: {
+                rawBody: true // needed for X-Hub-Signature verification
+            }
+        },
+        BitbucketWebhookController.handle
+    );
+}
@@ -9,6 +9,19 @@ export default async function changeEventRoutes(fastify: FastifyInstance) {
     await fastify.register(async (instance) => {
         instance.addHook('preHandler', authenticateApiKey);
         instance.post('/change-events', ChangeEventController.createChangeEvent);
+
+        // POST /change-events/batch - Create many change events in one request
+        instance.post('/change-events/batch', ChangeEventController.createChangeEventBatch);
+
+        // Structured-mode CloudEvents are JSON with their own media type
+        instance.addContentTypeParser(
+            'application/cloudevents+json',
+            { parseAs: 'string' },
+            instance.getDefaultJsonParser('error', 'ignore')
+        );
+
+        // POST /change-events/cloudevents - Create a change event from a CloudEvent (structured or binary mode)
+        instance.post('/change-events/cloudevents', ChangeEventController.createChangeEventFromCloudEvent);
     });
 
     // All other routes use JWT authentication
@@ -0,0 +1,11 @@
+import { FastifyInstance } from 'fastify';
+import { CommitController } from '../controllers/CommitController';
+import { authenticateJWT } from '../middleware/auth';
+
+export default async function commitRoutes(fastify: FastifyInstance) {
+    // Add JWT authentication middleware to all routes
+    fastify.addHook('preHandler', authenticateJWT);
+
+    // GET /commits/:sha/timeline - Trace a commit through environments
+    fastify.get('/commits/:sha/timeline', CommitController.getCommitTimeline);
+}
@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { DeploymentController } from '../controllers/DeploymentController';
+import { authenticateJWT } from '../middleware/auth';
+
+export default async function deploymentRoutes(fastify: FastifyInstance) {
+    // Add JWT authentication middleware to all routes
+    fastify.addHook('preHandler', authenticateJWT);
+
+    // GET /deployments - List deployment lifecycles, most recently updated first
+    fastify.get('/deployments', DeploymentController.getAllDeployments);
+
+    // GET /deployments/:id - Get a deployment lifecycle with all its recorded states
+    fastify.get('/deployments/:id', DeploymentController.getDeploymentById);
+}
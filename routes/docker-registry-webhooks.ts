@@ -0,0 +1,21 @@
+import { FastifyInstance } from 'fastify';
+import { DockerRegistryWebhookController } from '../controllers/DockerRegistryWebhookController';
+
+export default async function dockerRegistryWebhookRoutes(fastify: FastifyInstance) {
+    // Registry notifications are JSON with their own media type
+    fastify.addContentTypeParser(
+        'application/vnd.docker.distribution.events.v1+json',
+        { parseAs: 'string' },
+        fastify.getDefaultJsonParser('error', 'ignore')
+    );
+
+    fastify.post(
+        '/webhooks/docker-registry/:orgId',
+        {
+            config: {
+                rawBody: true // stored on the delivery for replays
+            }
+        },
+        DockerRegistryWebhookController.handle
+    );
+}
@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { FluxWebhookController } from '../controllers/FluxWebhookController';
+
+export default async function fluxWebhookRoutes(fastify: FastifyInstance) {
+    fastify.post(
+        '/webhooks/flux/:orgId',
+        {
+            config: {
+                rawBody: true // needed for X-Signature verification
+            }
+        },
+        FluxWebhookController.handle
+    );
+}
@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { GenericWebhookController } from '../controllers/GenericWebhookController';
+
+export default async function genericWebhookRoutes(fastify: FastifyInstance) {
+    fastify.post(
+        '/webhooks/generic/:webhookId',
+        {
+            config: {
+                rawBody: true // needed for X-Webhook-Signature verification
+            }
+        },
+        GenericWebhookController.handle
+    );
+}
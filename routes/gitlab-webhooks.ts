@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { GitLabWebhookController } from '../controllers/GitlabWebhookController';
+
+export default async function gitlabWebhookRoutes(fastify: FastifyInstance) {
+    fastify.post(
+        '/webhooks/gitlab/:orgId',
+        {
+            config: {
+                rawBody: true // stored on the delivery for replays
+            }
+        },
+        GitLabWebhookController.handle
+    );
+}
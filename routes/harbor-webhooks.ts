@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { HarborWebhookController } from '../controllers/HarborWebhookController';
+
+export default async function harborWebhookRoutes(fastify: FastifyInstance) {
+    fastify.post(
+        '/webhooks/harbor/:orgId',
+        {
+            config: {
+                rawBody: true // stored on the delivery for replays
+            }
+        },
+        HarborWebhookController.handle
+    );
+}
@@ -0,0 +1,26 @@
+import { FastifyInstance } from 'fastify';
+import { InboundWebhookController } from '../controllers/InboundWebhookController';
+import { authenticateJWT } from '../middleware/auth';
+
+export default async function inboundWebhookRoutes(fastify: FastifyInstance) {
+    // Add JWT authentication middleware to all routes
+    fastify.addHook('preHandler', authenticateJWT);
+
+    // GET /inbound-webhooks - List the organization's generic inbound webhooks
+    fastify.get('/inbound-webhooks', InboundWebhookController.getAllInboundWebhooks);
+
+    // GET /inbound-webhooks/:id - Get an inbound webhook with its mapping
+    fastify.get('/inbound-webhooks/:id', InboundWebhookController.getInboundWebhookById);
+
+    // POST /inbound-webhooks - Register an inbound webhook, returns its URL and secret
+    fastify.post('/inbound-webhooks', InboundWebhookController.createInboundWebhook);
+
+    // PUT /inbound-webhooks/:id - Update the name, mapping or enabled flag
+    fastify.put('/inbound-webhooks/:id', InboundWebhookController.updateInboundWebhook);
+
+    // DELETE /inbound-webhooks/:id - Delete an inbound webhook
+    fastify.delete('/inbound-webhooks/:id', InboundWebhookController.deleteInboundWebhook);
+
+    // POST /inbound-webhooks/:id/test - Preview the change event produced for a sample payload
+    fastify.post('/inbound-webhooks/:id/test', InboundWebhookController.testInboundWebhookMapping);
+}
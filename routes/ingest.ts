@@ -0,0 +1,30 @@
+import { FastifyInstance } from 'fastify';
+import { IngestController } from '../controllers/IngestController';
+import { authenticateApiKey } from '../middleware/auth';
+import config from '../config/environment';
+import { gunzipBody } from '../utils/decompressBody';
+
+export default async function ingestRoutes(fastify: FastifyInstance) {
+    // Tool integrations post with an organization API key, like POST /change-events
+    fastify.addHook('preHandler', authenticateApiKey);
+
+    // POST /ingest/kubernetes - Record a Deployment/StatefulSet rollout notification
+    fastify.post('/ingest/kubernetes', IngestController.ingestKubernetesRollout);
+
+    // POST /ingest/terraform - Record a Terraform JSON plan or apply summary
+    fastify.post('/ingest/terraform', IngestController.ingestTerraformRun);
+
+    // POST /ingest/helm - Record a Helm release revision
+    fastify.post('/ingest/helm', IngestController.ingestHelmRelease);
+
+    // POST /ingest/cloudtrail - Import a CloudTrail log file, files are larger than the default body limit
+    // and are uploaded as they are stored in S3, gzipped
+    fastify.post(
+        '/ingest/cloudtrail',
+        { bodyLimit: config.ingestion.maxImportBytes, preParsing: gunzipBody },
+        IngestController.importCloudTrail
+    );
+
+    // POST /ingest/migrations/:tool - Record a Flyway, Liquibase, knex or Prisma migration run
+    fastify.post('/ingest/migrations/:tool', IngestController.ingestMigrationRun);
+}
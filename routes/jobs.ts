@@ -0,0 +1,17 @@
+import { FastifyInstance } from 'fastify';
+import { JobController } from '../controllers/JobController';
+import { authenticateJWT } from '../middleware/auth';
+
+export default async function jobRoutes(fastify: FastifyInstance) {
+    // Add JWT authentication middleware to all routes
+    fastify.addHook('preHandler', authenticateJWT);
+
+    // GET /jobs/failed - List dead-lettered background jobs for the organization
+    fastify.get('/jobs/failed', JobController.getFailedJobs);
+
+    // GET /jobs/:id - Get a background job
+    fastify.get('/jobs/:id', JobController.getJobById);
+
+    // POST /jobs/:id/retry - Move a dead-lettered job back to the queue
+    fastify.post('/jobs/:id/retry', JobController.retryJob);
+}
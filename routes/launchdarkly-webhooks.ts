@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { LaunchDarklyWebhookController } from '../controllers/LaunchDarklyWebhookController';
+
+export default async function launchDarklyWebhookRoutes(fastify: FastifyInstance) {
+    fastify.post(
+        '/webhooks/launchdarkly/:orgId',
+        {
+            config: {
+                rawBody: true // needed for X-LD-Signature verification
+            }
+        },
+        LaunchDarklyWebhookController.handle
+    );
+}
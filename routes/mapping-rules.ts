@@ -0,0 +1,20 @@
+import { FastifyInstance } from 'fastify';
+import { MappingRuleController } from '../controllers/MappingRuleController';
+import { authenticateJWT } from '../middleware/auth';
+
+export default async function mappingRuleRoutes(fastify: FastifyInstance) {
+    // Add JWT authentication middleware to all routes
+    fastify.addHook('preHandler', authenticateJWT);
+
+    // GET /mapping-rules - List the organization's ingestion mapping rules in evaluation order
+    fastify.get('/mapping-rules', MappingRuleController.getAllMappingRules);
+
+    // POST /mapping-rules - Create a mapping rule
+    fastify.post('/mapping-rules', MappingRuleController.createMappingRule);
+
+    // PUT /mapping-rules/:id - Update a mapping rule
+    fastify.put('/mapping-rules/:id', MappingRuleController.updateMappingRule);
+
+    // DELETE /mapping-rules/:id - Delete a mapping rule
+    fastify.delete('/mapping-rules/:id', MappingRuleController.deleteMappingRule);
+}
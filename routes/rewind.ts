@@ -13,4 +13,7 @@ export default async function rewindRoutes(fastify: FastifyInstance) {
 
     // GET /rewind/summary - Get a summary of changes before an incident with risk assessment
     fastify.get('/rewind/summary', RewindController.rewindSummary);
+
+    // GET /rewind/last-good - Find the last release that stayed healthy before an incident and the suspects after it
+    fastify.get('/rewind/last-good', RewindController.lastGood);
 }
\ No newline at end of file
@@ -9,6 +9,9 @@ export default async function scoringRoutes(fastify: FastifyInstance) {
     // GET /scoring/incident - Score all changes related to an incident
     fastify.get('/scoring/incident', ScoringController.scoreIncident);
 
+    // POST /scoring/incident - Same as GET, and records the scores against the incident
+    fastify.post('/scoring/incident', ScoringController.scoreIncident);
+
     // GET /scoring/event/:id - Score a specific change event against an incident
     fastify.get('/scoring/event/:id', ScoringController.scoreEvent);
 
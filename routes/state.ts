@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { StateController } from '../controllers/StateController';
+import { authenticateJWT } from '../middleware/auth';
+
+export default async function stateRoutes(fastify: FastifyInstance) {
+    // Add JWT authentication middleware to all routes
+    fastify.addHook('preHandler', authenticateJWT);
+
+    // GET /state - The version of every service running in an environment at a point in time
+    fastify.get('/state', StateController.getState);
+
+    // GET /state/drift - Services whose deployed commit differs between two environments
+    fastify.get('/state/drift', StateController.getDrift);
+}
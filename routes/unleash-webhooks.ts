@@ -0,0 +1,14 @@
+import { FastifyInstance } from 'fastify';
+import { UnleashWebhookController } from '../controllers/UnleashWebhookController';
+
+export default async function unleashWebhookRoutes(fastify: FastifyInstance) {
+    fastify.post(
+        '/webhooks/unleash/:orgId',
+        {
+            config: {
+                rawBody: true // stored on the delivery for replays
+            }
+        },
+        UnleashWebhookController.handle
+    );
+}
@@ -0,0 +1,17 @@
+import { FastifyInstance } from 'fastify';
+import { WebhookDeliveryController } from '../controllers/WebhookDeliveryController';
+import { authenticateJWT } from '../middleware/auth';
+
+export default async function webhookDeliveryRoutes(fastify: FastifyInstance) {
+    // Add JWT authentication middleware to all routes
+    fastify.addHook('preHandler', authenticateJWT);
+
+    // GET /webhook-deliveries - List recorded webhook deliveries for the organization
+    fastify.get('/webhook-deliveries', WebhookDeliveryController.getAllDeliveries);
+
+    // GET /webhook-deliveries/:id - Get a delivery including headers and raw body
+    fastify.get('/webhook-deliveries/:id', WebhookDeliveryController.getDeliveryById);
+
+    // POST /webhook-deliveries/:id/replay - Run a recorded delivery through ingestion again
+    fastify.post('/webhook-deliveries/:id/replay', WebhookDeliveryController.replayDelivery);
+}
@@ -21,7 +21,17 @@ async function setupDatabase() {
             '001_create_change_events_table.sql',
             '002_create_organizations_table.sql',
             '003_create_api_keys_table.sql',
-            '004_add_organization_id_to_change_events.sql'
+            '004_add_organization_id_to_change_events.sql',
+            '006_create_webhook_deliveries_table.sql',
+            '007_add_change_event_deduplication.sql',
+            '008_create_jobs_table.sql',
+            '009_create_mapping_rules_table.sql',
+            '010_add_path_mapping_rules.sql',
+            '011_add_confidence_to_change_events.sql',
+            '012_add_workspace_mapping_rules.sql',
+            '013_create_inbound_webhooks_table.sql',
+            '014_create_deployments_table.sql',
+            '015_create_incident_scores_table.sql'
         ];
 
         for (const migration of migrations) {
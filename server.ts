@@ -6,11 +6,29 @@ import apiKeyRoutes from "./routes/api-keys";
 import rewindRoutes from "./routes/rewind";
 import scoringRoutes from "./routes/scoring";
 import userRoutes from "./routes/users";
+import webhookDeliveryRoutes from "./routes/webhook-deliveries";
+import jobRoutes from "./routes/jobs";
+import mappingRuleRoutes from "./routes/mapping-rules";
+import ingestRoutes from "./routes/ingest";
+import deploymentRoutes from "./routes/deployments";
+import stateRoutes from "./routes/state";
+import commitRoutes from "./routes/commits";
+import inboundWebhookRoutes from "./routes/inbound-webhooks";
 import config from "./config/environment";
 import { registerDatabase } from "./database/connection";
 import fastifyCors from "@fastify/cors";
 import githubWebhookRoutes from "./routes/github-webhooks";
+import gitlabWebhookRoutes from "./routes/gitlab-webhooks";
+import bitbucketWebhookRoutes from "./routes/bitbucket-webhooks";
+import argoCdWebhookRoutes from "./routes/argocd-webhooks";
+import fluxWebhookRoutes from "./routes/flux-webhooks";
+import launchDarklyWebhookRoutes from "./routes/launchdarkly-webhooks";
+import unleashWebhookRoutes from "./routes/unleash-webhooks";
+import genericWebhookRoutes from "./routes/generic-webhooks";
+import dockerRegistryWebhookRoutes from "./routes/docker-registry-webhooks";
+import harborWebhookRoutes from "./routes/harbor-webhooks";
 import rawBody from "fastify-raw-body";
+import { JobQueue } from "./services/JobQueue";
 
 const fastify = Fastify({
   logger: {
@@ -57,7 +75,27 @@ const start = async () => {
     fastify.register(apiKeyRoutes, { prefix: config.api.prefix });
     fastify.register(rewindRoutes, { prefix: config.api.prefix });
     fastify.register(scoringRoutes, { prefix: config.api.prefix });
+    fastify.register(webhookDeliveryRoutes, { prefix: config.api.prefix });
+    fastify.register(jobRoutes, { prefix: config.api.prefix });
+    fastify.register(mappingRuleRoutes, { prefix: config.api.prefix });
+    fastify.register(ingestRoutes, { prefix: config.api.prefix });
+    fastify.register(inboundWebhookRoutes, { prefix: config.api.prefix });
+    fastify.register(deploymentRoutes, { prefix: config.api.prefix });
+    fastify.register(stateRoutes, { prefix: config.api.prefix });
+    fastify.register(commitRoutes, { prefix: config.api.prefix });
     fastify.register(githubWebhookRoutes);
+    fastify.register(gitlabWebhookRoutes);
+    fastify.register(bitbucketWebhookRoutes);
+    fastify.register(argoCdWebhookRoutes);
+    fastify.register(fluxWebhookRoutes);
+    fastify.register(launchDarklyWebhookRoutes);
+    fastify.register(unleashWebhookRoutes);
+    fastify.register(genericWebhookRoutes);
+    fastify.register(dockerRegistryWebhookRoutes);
+    fastify.register(harborWebhookRoutes);
+
+    // Process queued webhook deliveries in the background
+    JobQueue.registerWorker(fastify);
 
     await fastify.listen({
       port: config.port,
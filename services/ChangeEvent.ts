@@ -1,59 +1,566 @@
 import crypto from 'crypto';
-import { ChangeEventModel } from '../models/ChangeEvent';
+import { ChangeEventModel, ChangeEvent as StoredChangeEvent, CreateChangeEventData } from '../models/ChangeEvent';
+import { OrganizationModel } from '../models/Organization';
 import { GitHubChangeEventMapper } from '../mappers/github-events';
+import { GitLabChangeEventMapper } from '../mappers/gitlab-events';
+import { BitbucketChangeEventMapper } from '../mappers/bitbucket-events';
+import { KubernetesChangeEventMapper } from '../mappers/kubernetes-events';
+import { TerraformChangeEventMapper } from '../mappers/terraform-events';
+import { GitOpsChangeEventMapper } from '../mappers/gitops-events';
+import { FeatureFlagChangeEventMapper } from '../mappers/feature-flag-events';
+import { GenericWebhookMapper } from '../mappers/generic-webhook';
+import { MigrationChangeEventMapper } from '../mappers/migration-events';
+import { RegistryChangeEventMapper } from '../mappers/registry-events';
+import { HelmChangeEventMapper } from '../mappers/helm-events';
+import { CloudTrailChangeEventMapper } from '../mappers/cloudtrail-events';
+import { InboundWebhook } from '../models/InboundWebhook';
+import config from '../config/environment';
+import { DeploymentLifecycleService } from './DeploymentLifecycle';
+import { NormalizedChangeEvent } from '../mappers/types';
+import { MappingRules } from '../mappers/rules';
+import { MappingRuleModel } from '../models/MappingRule';
 
 
 export interface ChangeEvent {
     payload: any,
     eventType: string,
     organization_id: string,
-    server: any
+    server: any,
+    idempotency_key?: string,
+    // When the webhook delivery arrived, for payloads that carry no timestamp of their own
+    received_at?: Date
 }
 
+// What happened to a single webhook delivery
+export interface IngestionResult {
+    status: 'stored' | 'ignored' | 'rejected';
+    event?: StoredChangeEvent;
+    // Every event stored for the delivery, more than one when a monorepo push touches several services
+    events?: StoredChangeEvent[];
+    duplicate?: boolean;
+    reason?: string;
+}
+
+export interface CreateResult {
+    event: StoredChangeEvent;
+    duplicate: boolean;
+}
+
+export interface CloudTrailImportResult {
+    received: number;
+    ignored: number;
+    invalid: number;
+    created: number;
+    duplicate: number;
+}
+
+type Mapper = (payload: any, rules: MappingRules, receivedAt: Date) => NormalizedChangeEvent | NormalizedChangeEvent[] | null;
+
 export class ChangeEventService {
+    private static readonly GITHUB_MAPPERS: Record<string, Mapper> = {
+        'push': GitHubChangeEventMapper.mapPushEvent,
+        'deployment': GitHubChangeEventMapper.mapDeploymentEvent,
+        'deployment_status': GitHubChangeEventMapper.mapDeploymentStatusEvent,
+        'workflow_run': GitHubChangeEventMapper.mapWorkflowRunEvent,
+        'page_build': GitHubChangeEventMapper.mapPageBuildEvent,
+        'release': GitHubChangeEventMapper.mapReleaseEvent,
+        'pull_request': GitHubChangeEventMapper.mapPullRequestEvent
+    };
+
+    // Keyed by the payload's object_kind, not the X-Gitlab-Event header
+    private static readonly GITLAB_MAPPERS: Record<string, Mapper> = {
+        'push': GitLabChangeEventMapper.mapPushEvent,
+        'merge_request': GitLabChangeEventMapper.mapMergeRequestEvent,
+        'pipeline': GitLabChangeEventMapper.mapPipelineEvent,
+        'deployment': GitLabChangeEventMapper.mapDeploymentEvent
+    };
+
+    // Keyed by the X-Event-Key header
+    private static readonly BITBUCKET_MAPPERS: Record<string, Mapper> = {
+        'repo:push': BitbucketChangeEventMapper.mapPushEvent,
+        'repo:refs_changed': BitbucketChangeEventMapper.mapRefsChangedEvent,
+        'pullrequest:fulfilled': BitbucketChangeEventMapper.mapPullRequestFulfilledEvent,
+        'pr:merged': BitbucketChangeEventMapper.mapPrMergedEvent
+    };
+
+    // Keyed by the tool in the ingestion URL
+    private static readonly MIGRATION_MAPPERS: Record<string, Mapper> = {
+        'flyway': MigrationChangeEventMapper.mapFlywayEvent,
+        'liquibase': MigrationChangeEventMapper.mapLiquibaseEvent,
+        'knex': MigrationChangeEventMapper.mapScriptedEvent,
+        'prisma': MigrationChangeEventMapper.mapScriptedEvent
+    };
+
+    static readonly GITHUB_EVENTS = Object.keys(ChangeEventService.GITHUB_MAPPERS);
+    static readonly MIGRATION_TOOLS = Object.keys(ChangeEventService.MIGRATION_MAPPERS);
+
+    // Sources whose events are the rollout of a commit already pushed to an SCM
+    private static readonly COMMIT_LINKED_SOURCES = ['argocd', 'flux'];
+    private static readonly SCM_SOURCES = ['github', 'gitlab', 'bitbucket'];
+
     static async ingestFromGitHub({
         payload,
         eventType,
         organization_id,
-        server
-    }: ChangeEvent) {
-        let normalizedEvent;
+        server,
+        idempotency_key
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(this.GITHUB_MAPPERS[eventType], payload, eventType, 'github', organization_id, server, idempotency_key);
+    }
+
+    static async ingestFromGitLab({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(this.GITLAB_MAPPERS[eventType], payload, eventType, 'gitlab', organization_id, server, idempotency_key);
+    }
+
+    static async ingestFromBitbucket({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(this.BITBUCKET_MAPPERS[eventType], payload, eventType, 'bitbucket', organization_id, server, idempotency_key);
+    }
+
+    // Rollout notifications posted to the ingestion API, eventType is the workload kind
+    static async ingestFromKubernetes({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(KubernetesChangeEventMapper.mapRolloutEvent, payload, eventType, 'kubernetes', organization_id, server, idempotency_key);
+    }
+
+    // Terraform plans and apply summaries posted to the ingestion API, eventType is plan or apply
+    static async ingestFromTerraform({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(TerraformChangeEventMapper.mapRunEvent, payload, eventType, 'terraform', organization_id, server, idempotency_key);
+    }
+
+    static async ingestFromArgoCd({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key,
+        received_at
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(GitOpsChangeEventMapper.mapArgoCdSyncEvent, payload, eventType, 'argocd', organization_id, server, idempotency_key, received_at);
+    }
+
+    static async ingestFromFlux({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key,
+        received_at
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(GitOpsChangeEventMapper.mapFluxEvent, payload, eventType, 'flux', organization_id, server, idempotency_key, received_at);
+    }
+
+    static async ingestFromLaunchDarkly({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key,
+        received_at
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(FeatureFlagChangeEventMapper.mapLaunchDarklyEvent, payload, eventType, 'launchdarkly', organization_id, server, idempotency_key, received_at);
+    }
+
+    static async ingestFromUnleash({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key,
+        received_at
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(FeatureFlagChangeEventMapper.mapUnleashEvent, payload, eventType, 'unleash', organization_id, server, idempotency_key, received_at);
+    }
+
+    // Helm release records posted to the ingestion API, eventType is the release status
+    static async ingestFromHelm({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(HelmChangeEventMapper.mapReleaseEvent, payload, eventType, 'helm', organization_id, server, idempotency_key);
+    }
+
+    // Migration tool hooks posted to the ingestion API, eventType is the tool
+    static async ingestFromMigrationTool({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key
+    }: ChangeEvent): Promise<IngestionResult> {
+        // knex and Prisma share a contract, the tool name tells them apart
+        const toolPayload = { ...payload, tool: eventType };
+        return this.ingest(this.MIGRATION_MAPPERS[eventType], toolPayload, eventType, eventType, organization_id, server, idempotency_key);
+    }
+
+    static async ingestFromDockerRegistry({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(RegistryChangeEventMapper.mapDockerRegistryEnvelope, payload, eventType, 'docker-registry', organization_id, server, idempotency_key);
+    }
+
+    static async ingestFromHarbor({
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key
+    }: ChangeEvent): Promise<IngestionResult> {
+        return this.ingest(RegistryChangeEventMapper.mapHarborEvent, payload, eventType, 'harbor', organization_id, server, idempotency_key);
+    }
+
+    // Import a batch of CloudTrail records. Read-only, failed and non-allow-listed calls are skipped,
+    // the rest are stored in chunks and deduplicated on the CloudTrail event ID.
+    static async importCloudTrail(records: any[], organization_id: string, server: any): Promise<CloudTrailImportResult> {
+        const rules = new MappingRules(await new MappingRuleModel(server).getAll({ organization_id }));
+        const result: CloudTrailImportResult = { received: records.length, ignored: 0, invalid: 0, created: 0, duplicate: 0 };
+        const events: CreateChangeEventData[] = [];
+
+        for (const record of records) {
+            if (!CloudTrailChangeEventMapper.isAllowed(record, config.ingestion.cloudTrailAllowList)) {
+                result.ignored++;
+                continue;
+            }
+
+            const normalizedEvent = CloudTrailChangeEventMapper.mapRecord(record, rules);
+            if (isNaN(normalizedEvent.occurred_at.getTime())) {
+                result.invalid++;
+                continue;
+            }
+
+            events.push({
+                id: crypto.randomUUID(),
+                occurred_at: normalizedEvent.occurred_at,
+                organization_id,
+                service: normalizedEvent.service,
+                environment: normalizedEvent.environment,
+                type: normalizedEvent.type,
+                source: 'cloudtrail',
+                summary: normalizedEvent.summary,
+                meta: normalizedEvent.meta,
+                confidence: normalizedEvent.confidence,
+                idempotency_key: `cloudtrail:${record.eventID}`
+            });
+        }
+
+        for (let i = 0; i < events.length; i += config.ingestion.maxBatchSize) {
+            const created = await this.createBatch(events.slice(i, i + config.ingestion.maxBatchSize), server);
+
+            for (const { duplicate } of created) {
+                if (duplicate) result.duplicate++;
+                else result.created++;
+            }
+        }
+
+        return result;
+    }
+
+    // Org-registered generic webhooks, mapped with the webhook's stored template and sourced by its name
+    static async ingestFromInboundWebhook(webhook: InboundWebhook, {
+        payload,
+        eventType,
+        organization_id,
+        server,
+        idempotency_key,
+        received_at
+    }: ChangeEvent): Promise<IngestionResult> {
+        const mapper: Mapper = (body, rules, receivedAt) => GenericWebhookMapper.map(webhook.mapping, body, receivedAt);
+        return this.ingest(mapper, payload, eventType, webhook.name, organization_id, server, idempotency_key, received_at);
+    }
+
+    private static async ingest(
+        mapper: Mapper | undefined,
+        payload: any,
+        eventType: string,
+        source: string,
+        organization_id: string,
+        server: any,
+        idempotency_key?: string,
+        received_at?: Date
+    ): Promise<IngestionResult> {
+        if (!mapper) {
+            return { status: 'ignored', reason: `Unsupported event type: ${eventType}` };
+        }
+
+        let mapped: NormalizedChangeEvent | NormalizedChangeEvent[] | null;
+
+        // The organization's branch/environment/repository rules override the mapper defaults
+        const rules = new MappingRules(await new MappingRuleModel(server).getAll({ organization_id }));
+
+        // A malformed payload should not take the whole delivery down as a 500
+        try {
+            mapped = mapper(payload, rules, received_at || new Date());
+        } catch (error) {
+            return {
+                status: 'rejected',
+                reason: `Could not map ${eventType} payload: ${error instanceof Error ? error.message : String(error)}`
+            };
+        }
+
+        const normalizedEvents = !mapped ? [] : Array.isArray(mapped) ? mapped : [mapped];
+
+        if (normalizedEvents.length === 0) {
+            return { status: 'ignored', reason: `No change to record for this ${eventType} event` };
+        }
+
+        if (normalizedEvents.some(e => isNaN(e.occurred_at.getTime()) || !e.service)) {
+            return { status: 'rejected', reason: `${eventType} payload is missing a timestamp or repository` };
+        }
+
+        if (this.COMMIT_LINKED_SOURCES.includes(source)) {
+            await this.linkToCommitEvents(normalizedEvents, organization_id, server);
+        }
+
+        await this.linkToImagePushes(normalizedEvents, organization_id, server);
+
+        const stored: CreateResult[] = [];
+
+        for (const normalizedEvent of normalizedEvents) {
+            // Events split out of one delivery each need their own key to be deduplicated on redelivery.
+            // A monorepo push yields one event per service; a registry envelope can push several
+            // tags of the same repository, so image pushes are told apart by digest and tag.
+            const suffix = normalizedEvent.type === 'image-push'
+                ? `${normalizedEvent.meta.digest}:${normalizedEvent.meta.tag ?? ''}`
+                : normalizedEvent.service;
+
+            const key = idempotency_key && normalizedEvents.length > 1
+                ? `${idempotency_key}:${suffix}`
+                : idempotency_key;
+
+            stored.push(await this.store(normalizedEvent, source, organization_id, server, key));
+        }
+
+        // Deployment and deployment status events extend the deployment's lifecycle. Duplicates are
+        // recorded too: if recording failed after the event was stored, the retry fills the state in,
+        // and states already on the lifecycle are not added twice.
+        for (const { event } of stored) {
+            await DeploymentLifecycleService.record(event, organization_id, server);
+        }
+
+        return {
+            status: 'stored',
+            event: stored[0].event,
+            events: stored.map(s => s.event),
+            duplicate: stored.every(s => s.duplicate)
+        };
+    }
+
+    // Point GitOps syncs at the push that introduced their commit via meta.linked_change_event_id
+    private static async linkToCommitEvents(events: NormalizedChangeEvent[], organization_id: string, server: any) {
+        const model = new ChangeEventModel(server);
+
+        for (const event of events) {
+            if (!event.meta?.commit) continue;
+
+            const pushEvent = await model.findFirstByCommit(organization_id, String(event.meta.commit), this.SCM_SOURCES);
+            if (pushEvent) event.meta.linked_change_event_id = pushEvent.id;
+        }
+    }
+
+    // Point deployments of a pushed image at the push via meta.image_push_event_id
+    private static async linkToImagePushes(events: NormalizedChangeEvent[], organization_id: string, server: any) {
+        const model = new ChangeEventModel(server);
 
-        switch (eventType) {
-            case 'push':
-                normalizedEvent =
-                    GitHubChangeEventMapper.mapPushEvent(payload);
-                break;
+        for (const event of events) {
+            if (event.type !== 'deployment') continue;
 
-            case 'deployment':
-                normalizedEvent =
-                    GitHubChangeEventMapper.mapDeploymentEvent(payload);
-                break;
+            const digests: string[] = event.meta?.digests || (event.meta?.digest ? [event.meta.digest] : []);
+
+            for (const digest of digests) {
+                const imagePush = await model.findImagePushByDigest(organization_id, digest);
+                if (imagePush) {
+                    event.meta.image_push_event_id = imagePush.id;
+                    break;
+                }
+            }
+        }
+    }
 
-            case 'deployment_status':
-                normalizedEvent =
-                    GitHubChangeEventMapper.mapDeploymentStatusEvent(payload);
-                break;
+    // Create a change event unless the same change was already recorded, either under the
+    // same idempotency key or (when the organization enables it) with the same natural key.
+    static async create(eventData: CreateChangeEventData, server: any): Promise<CreateResult> {
+        const model = new ChangeEventModel(server);
 
-            default:
-                return; // ignore noise
+        if (eventData.idempotency_key) {
+            const existing = await model.getByIdempotencyKey(eventData.organization_id, eventData.idempotency_key);
+            if (existing) return { event: existing, duplicate: true };
         }
 
-        if (!normalizedEvent) return;
+        // Only events with a commit have a natural key, skip the organization lookup for the rest
+        const dedupeWindow = eventData.meta?.commit ? await this.getDedupeWindow(eventData.organization_id, server) : null;
+        const naturalDuplicate = await this.findNaturalDuplicate(eventData, dedupeWindow, model);
+        if (naturalDuplicate) return { event: naturalDuplicate, duplicate: true };
+
+        const created = await model.create(eventData);
+        if (created) return { event: created, duplicate: false };
+
+        // Lost a race with a concurrent request using the same idempotency key
+        const existing = await model.getByIdempotencyKey(eventData.organization_id, eventData.idempotency_key as string);
+        if (!existing) throw new Error('Change event insert returned no row');
+
+        return { event: existing, duplicate: true };
+    }
+
+    // Same dedupe rules as create(), but new events are written with a single multi-row insert.
+    // All events must belong to the same organization. Results are in input order.
+    static async createBatch(events: CreateChangeEventData[], server: any): Promise<CreateResult[]> {
+        if (events.length === 0) return [];
 
         const model = new ChangeEventModel(server);
+        const organizationId = events[0].organization_id;
+        const results: CreateResult[] = new Array(events.length);
+
+        const keys = events.map(e => e.idempotency_key).filter((k): k is string => !!k);
+        const existingByKey = new Map(
+            (await model.getByIdempotencyKeys(organizationId, keys)).map(e => [e.idempotency_key as string, e])
+        );
+        const dedupeWindow = events.some(e => e.meta?.commit) ? await this.getDedupeWindow(organizationId, server) : null;
+
+        // Index of the first event in this batch using each idempotency key
+        const firstIndexByKey = new Map<string, number>();
+        // Events repeated within the batch, pointing at the index of their first occurrence
+        const duplicateOf = new Map<number, number>();
+        const toInsert: number[] = [];
+
+        for (let i = 0; i < events.length; i++) {
+            const key = events[i].idempotency_key;
 
-        return model.create({
+            if (key && existingByKey.has(key)) {
+                results[i] = { event: existingByKey.get(key)!, duplicate: true };
+                continue;
+            }
+
+            // Repeated within the batch, resolved once the first one is inserted
+            if (key && firstIndexByKey.has(key)) {
+                duplicateOf.set(i, firstIndexByKey.get(key) as number);
+                continue;
+            }
+
+            const naturalDuplicate = await this.findNaturalDuplicate(events[i], dedupeWindow, model);
+            if (naturalDuplicate) {
+                results[i] = { event: naturalDuplicate, duplicate: true };
+                continue;
+            }
+
+            const batchDuplicate = toInsert.find(j => this.isSameChange(events[i], events[j], dedupeWindow));
+            if (batchDuplicate !== undefined) {
+                duplicateOf.set(i, batchDuplicate);
+                continue;
+            }
+
+            if (key) firstIndexByKey.set(key, i);
+            toInsert.push(i);
+        }
+
+        const inserted = new Map(
+            (await model.createMany(toInsert.map(i => events[i]))).map(e => [e.id, e])
+        );
+
+        // Rows skipped by a concurrent insert with the same key
+        const racedKeys = toInsert
+            .filter(i => !inserted.has(events[i].id as string))
+            .map(i => events[i].idempotency_key as string);
+        const raced = new Map(
+            (await model.getByIdempotencyKeys(organizationId, racedKeys)).map(e => [e.idempotency_key as string, e])
+        );
+
+        for (const i of toInsert) {
+            const created = inserted.get(events[i].id as string);
+            const event = created || raced.get(events[i].idempotency_key as string);
+            if (!event) throw new Error('Change event insert returned no row');
+            results[i] = { event, duplicate: !created };
+        }
+
+        // Later repeats point at whatever the first occurrence resolved to
+        for (const [i, first] of duplicateOf) {
+            results[i] = { event: results[first].event, duplicate: true };
+        }
+
+        return results;
+    }
+
+    // Natural-key comparison between two events that are not stored yet
+    private static isSameChange(a: CreateChangeEventData, b: CreateChangeEventData, dedupeWindow: number | null): boolean {
+        if (!dedupeWindow || !a.meta?.commit) return false;
+
+        return a.service === b.service &&
+            a.environment === b.environment &&
+            a.type === b.type &&
+            String(a.meta.commit) === String(b.meta?.commit) &&
+            Math.abs(a.occurred_at.getTime() - b.occurred_at.getTime()) <= dedupeWindow * 1000;
+    }
+
+    private static async getDedupeWindow(organizationId: string, server: any): Promise<number | null> {
+        const organization = await new OrganizationModel(server).getById(organizationId);
+        return organization?.dedupe_window_seconds || null;
+    }
+
+    private static async findNaturalDuplicate(
+        eventData: CreateChangeEventData,
+        dedupeWindow: number | null,
+        model: ChangeEventModel
+    ): Promise<StoredChangeEvent | null> {
+        if (!dedupeWindow || !eventData.meta?.commit) return null;
+
+        return model.findByNaturalKey({
+            organization_id: eventData.organization_id,
+            service: eventData.service,
+            environment: eventData.environment,
+            type: eventData.type,
+            commit: String(eventData.meta.commit),
+            occurred_at: eventData.occurred_at,
+            window_seconds: dedupeWindow
+        });
+    }
+
+    private static async store(
+        normalizedEvent: NormalizedChangeEvent,
+        source: string,
+        organization_id: string,
+        server: any,
+        idempotency_key?: string
+    ) {
+        return this.create({
             id: crypto.randomUUID(),
             occurred_at: normalizedEvent.occurred_at,
             organization_id,
             service: normalizedEvent.service,
             environment: normalizedEvent.environment,
             type: normalizedEvent.type,
-            source: 'github',
+            source,
             summary: normalizedEvent.summary,
             meta: normalizedEvent.meta,
-            // confidence: normalizedEvent.confidence
-        });
+            confidence: normalizedEvent.confidence,
+            idempotency_key
+        }, server);
     }
 }
@@ -0,0 +1,161 @@
+import { ChangeEventModel, ChangeEvent } from '../models/ChangeEvent';
+import { IncidentScoreModel, IncidentScore } from '../models/IncidentScore';
+import { DeploymentLifecycleService } from './DeploymentLifecycle';
+
+export interface PromotionStep {
+    environment: string;
+    // When the commit first went live in the environment
+    reached_at: Date;
+    services: string[];
+    source: string;
+    change_event_id: string;
+    hop_from: string | null;
+    hop_seconds: number | null;
+}
+
+export interface CommitRollback {
+    environment: string;
+    service: string;
+    rolled_back_at: Date;
+    // 'away' when a rollback replaced the commit, 'to' when a rollback restored it
+    direction: 'away' | 'to';
+    to_commit: string | null;
+    change_event_id: string;
+    summary: string;
+}
+
+export interface CommitTimeline {
+    commit: string;
+    first_seen_at: Date;
+    services: string[];
+    promotion_path: PromotionStep[];
+    failures: ChangeEvent[];
+    rollbacks: CommitRollback[];
+    incidents: IncidentScore[];
+    events: ChangeEvent[];
+}
+
+export class CommitTimelineService {
+    // Trace a commit through environments. Returns null when no change event mentions it.
+    static async build(organization_id: string, sha: string, server: any): Promise<CommitTimeline | null> {
+        const commit = sha.toLowerCase();
+        const now = new Date();
+
+        const model = new ChangeEventModel(server);
+        const found = await model.findByCommit(organization_id, commit);
+        if (found.length === 0) return null;
+
+        // One entry per deployment lifecycle, anchored at the time it went live
+        const events = (await DeploymentLifecycleService.collapse(found, organization_id, server, { from: new Date(0), to: now }))
+            .sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
+
+        const releases = events.filter(event => DeploymentLifecycleService.RELEASE_TYPES.includes(event.type));
+        const live = releases.filter(event => DeploymentLifecycleService.wentLive(event, now));
+
+        const [rollbacksAway, incidents] = await Promise.all([
+            this.findRollbacksAway(organization_id, commit, live, now, server),
+            new IncidentScoreModel(server).getByChangeEventIds(organization_id, found.map(event => event.id))
+        ]);
+
+        const rollbacksTo: CommitRollback[] = live
+            .filter(event => event.type === 'rollback')
+            .map(event => this.toRollback(event, 'to'));
+
+        return {
+            commit,
+            first_seen_at: new Date(found[0].occurred_at),
+            services: [...new Set(found.map(event => event.service))].sort(),
+            promotion_path: this.buildPromotionPath(live),
+            failures: releases.filter(event => DeploymentLifecycleService.failed(event)),
+            rollbacks: [...rollbacksTo, ...rollbacksAway]
+                .sort((a, b) => a.rolled_back_at.getTime() - b.rolled_back_at.getTime()),
+            incidents,
+            events
+        };
+    }
+
+    // The first time the commit went live in each environment, in the order the environments were reached
+    private static buildPromotionPath(live: ChangeEvent[]): PromotionStep[] {
+        const steps = new Map<string, PromotionStep>();
+
+        for (const event of live) {
+            const step = steps.get(event.environment);
+
+            if (step) {
+                if (!step.services.includes(event.service)) step.services.push(event.service);
+                continue;
+            }
+
+            steps.set(event.environment, {
+                environment: event.environment,
+                reached_at: new Date(event.occurred_at),
+                services: [event.service],
+                source: event.source,
+                change_event_id: event.id,
+                hop_from: null,
+                hop_seconds: null
+            });
+        }
+
+        const path = [...steps.values()];
+
+        path.forEach((step, index) => {
+            const previous = path[index - 1];
+            if (!previous) return;
+
+            step.hop_from = previous.environment;
+            step.hop_seconds = Math.round((step.reached_at.getTime() - previous.reached_at.getTime()) / 1000);
+        });
+
+        return path;
+    }
+
+    // Where the release that replaced the commit in a service/environment was a rollback to another commit
+    private static async findRollbacksAway(
+        organization_id: string,
+        commit: string,
+        live: ChangeEvent[],
+        now: Date,
+        server: any
+    ): Promise<CommitRollback[]> {
+        const model = new ChangeEventModel(server);
+        const rollbacks: CommitRollback[] = [];
+        const lastLive = new Map<string, ChangeEvent>();
+
+        for (const event of live) {
+            lastLive.set(`${event.service}\u0000${event.environment}`, event);
+        }
+
+        for (const event of lastLive.values()) {
+            const history = await model.findReleaseHistory(
+                organization_id,
+                event.service,
+                [event.environment],
+                DeploymentLifecycleService.RELEASE_TYPES,
+                DeploymentLifecycleService.providerStatesFor('success'),
+                now
+            );
+
+            const replacedBy = history.find(release =>
+                new Date(release.occurred_at) > new Date(event.occurred_at) &&
+                !String(release.meta?.commit ?? '').toLowerCase().startsWith(commit)
+            );
+
+            if (replacedBy?.type === 'rollback') rollbacks.push(this.toRollback(replacedBy, 'away'));
+        }
+
+        return rollbacks;
+    }
+
+    private static toRollback(event: ChangeEvent, direction: 'away' | 'to'): CommitRollback {
+        return {
+            environment: event.environment,
+            service: event.service,
+            rolled_back_at: new Date(event.occurred_at),
+            direction,
+            to_commit: event.meta?.commit ? String(event.meta.commit) : null,
+            change_event_id: event.id,
+            summary: event.summary
+        };
+    }
+}
@@ -0,0 +1,189 @@
+import { ChangeEventModel, ChangeEvent } from '../models/ChangeEvent';
+import { DeploymentLifecycleService } from './DeploymentLifecycle';
+import { LastGoodService } from './LastGood';
+
+export interface DeployedVersion {
+    service: string;
+    commit: string | null;
+    version: string | null;
+    deployed_at: Date;
+    type: string;
+    source: string;
+    summary: string;
+    change_event_id: string;
+}
+
+export interface ServiceDrift {
+    service: string;
+    source: DeployedVersion | null;
+    target: DeployedVersion | null;
+    // When the two environments last stopped running the same version, null if they never did
+    diverged_since: Date | null;
+    diverged_for_seconds: number | null;
+    // Change events of the service in the two environments between the older and the newer deploy
+    events_between: ChangeEvent[];
+    // More events sit between the deploys than events_between holds
+    events_truncated: boolean;
+}
+
+export interface DriftResult {
+    drifted: ServiceDrift[];
+    in_sync: string[];
+    // Deployed to both environments, but neither a commit nor a version was recorded to compare
+    unknown: string[];
+}
+
+export class DeployedStateService {
+    private static readonly EVENTS_BETWEEN_LIMIT = 100;
+
+    // The version of every service running in the environment at a point in time
+    static async getState(organization_id: string, environment: string, at: Date, server: any): Promise<DeployedVersion[]> {
+        const releases = await new ChangeEventModel(server).findLatestReleases(
+            organization_id,
+            environment,
+            DeploymentLifecycleService.RELEASE_TYPES,
+            DeploymentLifecycleService.providerStatesFor('success'),
+            at
+        );
+
+        return releases.map(release => this.toDeployedVersion(release));
+    }
+
+    // Services whose deployed version differs between the two environments. Commits are compared when
+    // both deploys recorded one, versions otherwise. A service deployed to only one of them counts as drifted.
+    static async compare(
+        organization_id: string,
+        source: string,
+        target: string,
+        at: Date,
+        server: any
+    ): Promise<DriftResult> {
+        const [sourceState, targetState] = await Promise.all([
+            this.getState(organization_id, source, at, server),
+            this.getState(organization_id, target, at, server)
+        ]);
+
+        const sourceByService = new Map(sourceState.map(v => [v.service, v]));
+        const targetByService = new Map(targetState.map(v => [v.service, v]));
+        const services = [...new Set([...sourceByService.keys(), ...targetByService.keys()])].sort();
+
+        const result: DriftResult = { drifted: [], in_sync: [], unknown: [] };
+
+        for (const service of services) {
+            const sourceVersion = sourceByService.get(service) || null;
+            const targetVersion = targetByService.get(service) || null;
+
+            if (sourceVersion && targetVersion) {
+                const [sourceIdentity, targetIdentity] = this.comparableIdentities(sourceVersion, targetVersion);
+
+                if (sourceIdentity === null || targetIdentity === null) {
+                    result.unknown.push(service);
+                    continue;
+                }
+
+                if (sourceIdentity === targetIdentity) {
+                    result.in_sync.push(service);
+                    continue;
+                }
+            }
+
+            const divergedSince = await this.findDivergence(organization_id, service, source, target, at, server);
+
+            const between = sourceVersion && targetVersion
+                ? await this.findEventsBetween(organization_id, source, target, sourceVersion, targetVersion, server)
+                : { events: [], truncated: false };
+
+            result.drifted.push({
+                service,
+                source: sourceVersion,
+                target: targetVersion,
+                diverged_since: divergedSince,
+                diverged_for_seconds: divergedSince ? Math.round((at.getTime() - divergedSince.getTime()) / 1000) : null,
+                events_between: between.events,
+                events_truncated: between.truncated
+            });
+        }
+
+        return result;
+    }
+
+    // Commits when both deploys recorded one, versions when both did, otherwise nothing comparable
+    private static comparableIdentities(a: DeployedVersion, b: DeployedVersion): [string | null, string | null] {
+        if (a.commit && b.commit) return [a.commit, b.commit];
+        if (a.version && b.version) return [a.version, b.version];
+        return [null, null];
+    }
+
+    // Replay both environments' releases and return the first release after the last moment they ran the same version
+    private static async findDivergence(
+        organization_id: string,
+        service: string,
+        source: string,
+        target: string,
+        at: Date,
+        server: any
+    ): Promise<Date | null> {
+        const history = await new ChangeEventModel(server).findReleaseHistory(
+            organization_id,
+            service,
+            [source, target],
+            DeploymentLifecycleService.RELEASE_TYPES,
+            DeploymentLifecycleService.providerStatesFor('success'),
+            at
+        );
+
+        const running: Record<string, string | undefined> = {};
+        let inSync = false;
+        let divergedSince: Date | null = null;
+
+        for (const release of history) {
+            const { commit, version } = this.toDeployedVersion(release);
+            running[release.environment] = commit ? `commit:${commit}` : version ? `version:${version}` : undefined;
+
+            const matches = running[source] !== undefined && running[source] === running[target];
+            if (inSync && !matches) divergedSince = new Date(release.occurred_at);
+            inSync = matches;
+        }
+
+        return divergedSince;
+    }
+
+    // Oldest first, so a truncated list still starts right after the older deploy
+    private static async findEventsBetween(
+        organization_id: string,
+        source: string,
+        target: string,
+        a: DeployedVersion,
+        b: DeployedVersion,
+        server: any
+    ): Promise<{ events: ChangeEvent[]; truncated: boolean }> {
+        const [older, newer] = a.deployed_at <= b.deployed_at ? [a, b] : [b, a];
+
+        const events = (await new ChangeEventModel(server).findBetween(
+            organization_id,
+            a.service,
+            [source, target],
+            older.deployed_at,
+            newer.deployed_at,
+            this.EVENTS_BETWEEN_LIMIT + 1
+        )).filter(event => event.id !== older.change_event_id && event.id !== newer.change_event_id);
+
+        return {
+            events: events.slice(0, this.EVENTS_BETWEEN_LIMIT),
+            truncated: events.length > this.EVENTS_BETWEEN_LIMIT
+        };
+    }
+
+    private static toDeployedVersion(release: ChangeEvent): DeployedVersion {
+        return {
+            service: release.service,
+            commit: release.meta?.commit ? String(release.meta.commit) : null,
+            version: LastGoodService.versionOf(release.meta),
+            deployed_at: new Date(release.occurred_at),
+            type: release.type,
+            source: release.source,
+            summary: release.summary,
+            change_event_id: release.id
+        };
+    }
+}
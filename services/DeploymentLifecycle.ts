@@ -0,0 +1,223 @@
+import { ChangeEvent } from '../models/ChangeEvent';
+import {
+    DeploymentModel,
+    Deployment,
+    DeploymentState,
+    DeploymentStateEntry,
+    DeploymentLifecycle
+} from '../models/Deployment';
+
+export interface TimeWindow {
+    from: Date;
+    to: Date;
+}
+
+// GitHub and GitLab each report deployments as a creation event followed by status
+// events that share a deployment_id. This service folds them into one deployment lifecycle.
+export class DeploymentLifecycleService {
+    // Provider states, lowercased, mapped to lifecycle states
+    private static readonly STATE_ALIASES: Record<string, DeploymentState> = {
+        'queued': 'queued',
+        'pending': 'queued',
+        'created': 'queued',
+        'waiting': 'queued',
+        'in_progress': 'in_progress',
+        'running': 'in_progress',
+        'success': 'success',
+        'successful': 'success',
+        'failure': 'failure',
+        'failed': 'failure',
+        'canceled': 'failure',
+        'stopped': 'failure',
+        'error': 'error',
+        'inactive': 'inactive',
+        'undeployed': 'inactive'
+    };
+
+    private static readonly FINISHED_STATES: DeploymentState[] = ['success', 'failure', 'error'];
+
+    // Change event types that put a new version in front of users. Last-good, /state, drift and the
+    // commit timeline all read releases through this list so they agree on what is running.
+    static readonly RELEASE_TYPES = ['deployment', 'rollback', 'hotfix'];
+
+    static isLifecycleEvent(event: ChangeEvent): boolean {
+        return event.type === 'deployment' && event.meta?.deployment_id !== undefined && event.meta?.deployment_id !== null;
+    }
+
+    // Every provider state that maps to the given lifecycle state
+    static providerStatesFor(state: DeploymentState): string[] {
+        return Object.keys(this.STATE_ALIASES).filter(alias => this.STATE_ALIASES[alias] === state);
+    }
+
+    // A deployment creation event carries no state yet, it is queued until the first status arrives
+    static normalizeState(state: unknown): DeploymentState | null {
+        if (state === undefined || state === null) return 'queued';
+        return this.STATE_ALIASES[String(state).toLowerCase()] || null;
+    }
+
+    // Whether a release event (collapsed or not) had changed what was running by `at`.
+    // Failed, still running and never completed releases did not.
+    static wentLive(event: ChangeEvent, at: Date): boolean {
+        const meta = event.meta || {};
+
+        if (meta.lifecycle) {
+            return meta.lifecycle.live_at !== null && new Date(meta.lifecycle.live_at) <= at;
+        }
+
+        if (this.failed(event)) return false;
+
+        if (meta.state !== undefined && meta.state !== null) {
+            const state = this.normalizeState(meta.state);
+            return state !== 'queued' && state !== 'in_progress';
+        }
+
+        return true;
+    }
+
+    // Failed lifecycles, GitOps syncs, Helm releases and provider deployment states
+    static failed(event: ChangeEvent): boolean {
+        const meta = event.meta || {};
+
+        if (meta.lifecycle) {
+            return meta.lifecycle.live_at === null && ['failure', 'error'].includes(meta.lifecycle.state);
+        }
+
+        if (meta.outcome === 'failed' || String(meta.status).toLowerCase() === 'failed') return true;
+
+        const state = meta.state !== undefined && meta.state !== null ? this.normalizeState(meta.state) : null;
+        return state === 'failure' || state === 'error';
+    }
+
+    // Add a stored change event to its deployment's lifecycle. Returns null for events that are
+    // not part of a lifecycle or report a state we do not track. Stored rows name the organization
+    // org_id rather than organization_id, so it is passed in.
+    static async record(event: ChangeEvent, organization_id: string, server: any): Promise<Deployment | null> {
+        if (!this.isLifecycleEvent(event)) return null;
+
+        const state = this.normalizeState(event.meta.state);
+        if (!state) return null;
+
+        return new DeploymentModel(server).recordState({
+            organization_id,
+            source: event.source,
+            deployment_id: String(event.meta.deployment_id),
+            service: event.service,
+            environment: event.environment,
+            commit_sha: event.meta.commit,
+            entry: {
+                state,
+                at: new Date(event.occurred_at).toISOString(),
+                change_event_id: event.id
+            }
+        }, states => this.summarize(states));
+    }
+
+    // Webhooks can arrive out of order, so states are ordered by when they happened rather than by arrival.
+    // The duration runs from the first reported state until the deployment succeeded or failed.
+    static summarize(states: DeploymentStateEntry[]): DeploymentLifecycle {
+        const ordered = [...states].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+
+        const firstAt = (wanted: DeploymentState[]) => {
+            const entry = ordered.find(s => wanted.includes(s.state));
+            return entry ? new Date(entry.at) : null;
+        };
+
+        const finishedAt = firstAt(this.FINISHED_STATES);
+
+        return {
+            state: ordered[ordered.length - 1].state,
+            queued_at: firstAt(['queued']),
+            started_at: firstAt(['in_progress']),
+            live_at: firstAt(['success']),
+            finished_at: finishedAt,
+            duration_seconds: finishedAt
+                ? Math.round((finishedAt.getTime() - new Date(ordered[0].at).getTime()) / 1000)
+                : null
+        };
+    }
+
+    // Replace the events of each tracked deployment with a single event anchored at the time it went live.
+    // A deployment that had not gone live by the end of the window is anchored at its latest event instead,
+    // and one that went live before the window started is dropped: it was not a change inside the window.
+    // Events recorded before lifecycle tracking existed have no deployment row and are kept as they are.
+    static async collapse(events: ChangeEvent[], organization_id: string, server: any, window: TimeWindow): Promise<ChangeEvent[]> {
+        const groups = new Map<string, ChangeEvent[]>();
+
+        for (const event of events) {
+            if (!this.isLifecycleEvent(event)) continue;
+
+            const key = this.key(event.source, event.meta.deployment_id);
+            groups.set(key, [...(groups.get(key) || []), event]);
+        }
+
+        if (groups.size === 0) return events;
+
+        const deployments = new Map(
+            (await new DeploymentModel(server).getByKeys(organization_id, [...groups.keys()]))
+                .map(d => [this.key(d.source, d.deployment_id), d])
+        );
+
+        const collapsed: ChangeEvent[] = [];
+
+        for (const event of events) {
+            if (!this.isLifecycleEvent(event)) {
+                collapsed.push(event);
+                continue;
+            }
+
+            const key = this.key(event.source, event.meta.deployment_id);
+            const group = groups.get(key);
+
+            // Already emitted with an earlier event of the same deployment
+            if (!group) continue;
+            groups.delete(key);
+
+            const deployment = deployments.get(key);
+            if (!deployment) {
+                collapsed.push(...group);
+                continue;
+            }
+
+            const lifecycleEvent = this.toChangeEvent(deployment, group, window.to);
+            if (lifecycleEvent.occurred_at >= window.from) collapsed.push(lifecycleEvent);
+        }
+
+        return collapsed.sort((a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime());
+    }
+
+    private static toChangeEvent(deployment: Deployment, group: ChangeEvent[], until: Date): ChangeEvent {
+        const wentLive = deployment.live_at !== null && new Date(deployment.live_at) <= until;
+        const latest = group.reduce((a, b) => new Date(a.occurred_at) >= new Date(b.occurred_at) ? a : b);
+
+        // The state the deployment was in at the end of the window
+        const reached = deployment.states.filter(s => new Date(s.at) <= until);
+        const state = reached.length > 0 ? this.summarize(reached).state : deployment.state;
+
+        const base = group.find(e => this.normalizeState(e.meta.state) === 'success') || latest;
+
+        return {
+            ...base,
+            occurred_at: wentLive ? new Date(deployment.live_at as Date) : new Date(latest.occurred_at),
+            summary: `Deployment ${state} (${deployment.environment})`,
+            confidence: Math.max(...group.map(e => e.confidence)),
+            meta: {
+                ...base.meta,
+                state,
+                lifecycle: {
+                    id: deployment.id,
+                    state: deployment.state,
+                    queued_at: deployment.queued_at,
+                    started_at: deployment.started_at,
+                    live_at: deployment.live_at,
+                    finished_at: deployment.finished_at,
+                    duration_seconds: deployment.duration_seconds,
+                    change_event_ids: group.map(e => e.id)
+                }
+            }
+        };
+    }
+
+    private static key(source: string, deploymentId: unknown): string {
+        return `${source}:${deploymentId}`;
+    }
+}
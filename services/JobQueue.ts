@@ -0,0 +1,93 @@
+import { FastifyInstance } from 'fastify';
+import { Job, JobModel } from '../models/Job';
+import { WebhookDeliveryModel } from '../models/WebhookDelivery';
+import { WebhookDeliveryService, WEBHOOK_DELIVERY_JOB } from './WebhookDelivery';
+import config from '../config/environment';
+
+type JobHandler = (job: Job, server: FastifyInstance) => Promise<void>;
+
+export class JobQueue {
+    // Upper bound for a single backoff delay
+    private static readonly MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+    // A handler that throws is retried with backoff, returning normally completes the job
+    private static readonly HANDLERS: Record<string, JobHandler> = {
+        [WEBHOOK_DELIVERY_JOB]: async (job, server) => {
+            const delivery = await new WebhookDeliveryModel(server).getById(job.payload.webhook_delivery_id);
+
+            // Deleted along with its organization, nothing left to do
+            if (!delivery) return;
+
+            await WebhookDeliveryService.process(delivery, server);
+        }
+    };
+
+    // Start polling for jobs once the server is ready and stop cleanly on close
+    static registerWorker(fastify: FastifyInstance) {
+        let stopped = false;
+        let timer: NodeJS.Timeout | null = null;
+        let running: Promise<void> = Promise.resolve();
+
+        const tick = async () => {
+            let processed = false;
+
+            try {
+                processed = await this.runNext(fastify);
+            } catch (error) {
+                fastify.log.error(error, 'Job worker failed to poll');
+            }
+
+            if (stopped) return;
+
+            // Drain the queue without waiting, back off to the poll interval when it is empty
+            timer = setTimeout(() => {
+                running = tick();
+            }, processed ? 0 : config.jobs.pollIntervalMs);
+        };
+
+        fastify.addHook('onReady', async () => {
+            running = tick();
+        });
+
+        fastify.addHook('onClose', async () => {
+            stopped = true;
+            if (timer) clearTimeout(timer);
+            await running;
+        });
+    }
+
+    // Claim and run a single job, returns false when the queue is empty
+    static async runNext(server: FastifyInstance): Promise<boolean> {
+        const model = new JobModel(server);
+        const job = await model.claimNext(config.jobs.lockTimeoutMs);
+
+        if (!job) return false;
+
+        const handler = this.HANDLERS[job.type];
+
+        if (!handler) {
+            await model.fail(job.id, `No handler registered for job type: ${job.type}`, null);
+            return true;
+        }
+
+        try {
+            await handler(job, server);
+            await model.complete(job.id);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const retryAt = job.attempts < job.max_attempts
+                ? new Date(Date.now() + this.backoffMs(job.attempts))
+                : null;
+
+            server.log.warn({ jobId: job.id, attempts: job.attempts, dead: !retryAt }, `Job failed: ${message}`);
+            await model.fail(job.id, message, retryAt);
+        }
+
+        return true;
+    }
+
+    // Exponential backoff: base, 2x base, 4x base, ... capped at MAX_BACKOFF_MS
+    private static backoffMs(attempts: number): number {
+        return Math.min(config.jobs.backoffBaseMs * Math.pow(2, attempts - 1), this.MAX_BACKOFF_MS);
+    }
+}
@@ -0,0 +1,138 @@
+import { ChangeEventModel, ChangeEvent } from '../models/ChangeEvent';
+import { DeploymentLifecycleService } from './DeploymentLifecycle';
+
+export interface LastGoodQuery {
+    organization_id: string;
+    service: string;
+    environment: string;
+    incidentAt: Date;
+    healthyPeriodMs: number;
+    lookbackMs: number;
+    // Earlier incidents on the service. A deploy that was running when one started is not good.
+    knownIncidents: Date[];
+}
+
+export interface Release {
+    change_event_id: string;
+    type: string;
+    source: string;
+    summary: string;
+    deployed_at: Date;
+    commit: string | null;
+    version: string | null;
+    // Until the next release replaced it, or until the incident
+    up_for_seconds: number;
+    replaced_by: string | null;
+    event: ChangeEvent;
+}
+
+export interface RollbackTarget {
+    service: string;
+    environment: string;
+    change_event_id: string;
+    commit: string | null;
+    version: string | null;
+    revision: string | null;
+}
+
+export interface LastGoodResult {
+    last_good: Release | null;
+    rollback_target: RollbackTarget | null;
+    // Releases made after the last good one, oldest first
+    suspects: Release[];
+}
+
+export class LastGoodService {
+    // Walk back from the incident through the releases of one service in one environment and return the
+    // most recent one that stayed up for the healthy period: it was not replaced, rolled back, degraded
+    // or running during a known incident within that time.
+    static async resolve(query: LastGoodQuery, server: any): Promise<LastGoodResult> {
+        const from = new Date(query.incidentAt.getTime() - query.lookbackMs);
+        const model = new ChangeEventModel(server);
+
+        const fetched = await Promise.all(DeploymentLifecycleService.RELEASE_TYPES.map(type => model.getAll({
+            organization_id: query.organization_id,
+            service: query.service,
+            environment: query.environment,
+            type,
+            from_date: from,
+            to_date: query.incidentAt
+        })));
+
+        // One entry per deployment lifecycle, anchored at the time it went live
+        const events = await DeploymentLifecycleService.collapse(fetched.flat(), query.organization_id, server, {
+            from,
+            to: query.incidentAt
+        });
+
+        const live = events
+            .filter(event => DeploymentLifecycleService.wentLive(event, query.incidentAt))
+            .sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
+
+        const releases = live.map((event, index) => this.toRelease(event, live[index + 1], query.incidentAt));
+
+        let lastGoodIndex = -1;
+        for (let i = releases.length - 1; i >= 0; i--) {
+            if (this.isHealthy(releases[i], releases[i + 1], query)) {
+                lastGoodIndex = i;
+                break;
+            }
+        }
+
+        const lastGood = lastGoodIndex >= 0 ? releases[lastGoodIndex] : null;
+        const suspects = releases.slice(lastGoodIndex + 1);
+
+        return {
+            last_good: lastGood,
+            // Nothing to roll back to when the release running at the incident is itself the last good one
+            rollback_target: lastGood && suspects.length > 0 ? {
+                service: query.service,
+                environment: query.environment,
+                change_event_id: lastGood.change_event_id,
+                commit: lastGood.commit,
+                version: lastGood.version,
+                revision: this.stringOrNull(lastGood.event.meta?.revision)
+            } : null,
+            suspects
+        };
+    }
+
+    private static isHealthy(release: Release, next: Release | undefined, query: LastGoodQuery): boolean {
+        if (release.up_for_seconds * 1000 < query.healthyPeriodMs) return false;
+        if (release.event.meta?.outcome === 'degraded') return false;
+        if (next?.type === 'rollback') return false;
+
+        const runningUntil = release.deployed_at.getTime() + release.up_for_seconds * 1000;
+        return !query.knownIncidents.some(incident =>
+            incident.getTime() >= release.deployed_at.getTime() && incident.getTime() < runningUntil
+        );
+    }
+
+    private static toRelease(event: ChangeEvent, next: ChangeEvent | undefined, incidentAt: Date): Release {
+        const deployedAt = new Date(event.occurred_at);
+        const until = next ? new Date(next.occurred_at) : incidentAt;
+        const meta = event.meta || {};
+
+        return {
+            change_event_id: event.id,
+            type: event.type,
+            source: event.source,
+            summary: event.summary,
+            deployed_at: deployedAt,
+            commit: this.stringOrNull(meta.commit),
+            version: this.versionOf(meta),
+            up_for_seconds: Math.round((until.getTime() - deployedAt.getTime()) / 1000),
+            replaced_by: next ? next.id : null,
+            event
+        };
+    }
+
+    // Mappers record the version under different keys: Helm app_version, GitHub release tag, Argo CD revision...
+    static versionOf(meta: Record<string, any> = {}): string | null {
+        return this.stringOrNull(meta.version ?? meta.app_version ?? meta.release ?? meta.tag ?? meta.revision);
+    }
+
+    private static stringOrNull(value: unknown): string | null {
+        return value === undefined || value === null ? null : String(value);
+    }
+}
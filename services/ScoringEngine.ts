@@ -42,7 +42,8 @@ export class ScoringEngine {
         'hotfix': 80,
         'feature-flag': 50,
         'scaling': 45,
-        'maintenance': 30
+        'maintenance': 30,
+        'image-push': 20
     };
 
     private static readonly ENVIRONMENT_MULTIPLIERS: Record<string, number> = {
@@ -51,9 +52,13 @@ export class ScoringEngine {
         'staging': 0.7,
         'dev': 0.3,
         'development': 0.3,
-        'test': 0.2
+        'test': 0.2,
+        'registry': 0.3
     };
 
+    // Low-confidence events (e.g. a bare push) keep at least this share of their score
+    private static readonly MIN_CONFIDENCE_MULTIPLIER = 0.4;
+
     static scoreChangeEvent(
         event: ChangeEvent,
         context: IncidentContext,
@@ -91,6 +96,9 @@ export class ScoringEngine {
         const envMultiplier = this.ENVIRONMENT_MULTIPLIERS[event.environment.toLowerCase()] || 0.5;
         totalScore *= envMultiplier;
 
+        // Scale by how sure we are the change actually shipped, so a push scores below a confirmed deploy
+        totalScore *= this.getConfidenceMultiplier(event);
+
         // Normalize score to 0-100
         const finalScore = Math.min(Math.max(totalScore, 0), 100);
 
@@ -130,6 +138,11 @@ export class ScoringEngine {
         };
     }
 
+    private static getConfidenceMultiplier(event: ChangeEvent): number {
+        const confidence = event.confidence ?? 1;
+        return this.MIN_CONFIDENCE_MULTIPLIER + (1 - this.MIN_CONFIDENCE_MULTIPLIER) * confidence;
+    }
+
     private static calculateTimingProximity(event: ChangeEvent, context: IncidentContext): ScoreFactor {
         const timeDiff = context.incidentAt.getTime() - new Date(event.occurred_at).getTime();
         const minutesDiff = timeDiff / (1000 * 60);
@@ -208,6 +221,16 @@ export class ScoringEngine {
                 description = 'Rollbacks indicate previous issues and can cause new problems';
                 evidence.push('Rollback operation performed');
                 break;
+            case 'feature-flag':
+                description = 'Flag changes alter behaviour for users instantly, without a deploy';
+                if (event.meta?.change === 'rollout' && event.meta.rollout_percentage !== undefined) {
+                    evidence.push(`Flag ${event.meta.flag_key} rolled out from ${event.meta.previous_rollout_percentage ?? 0}% to ${event.meta.rollout_percentage}%`);
+                } else if (event.meta?.change === 'toggle') {
+                    evidence.push(`Flag ${event.meta.flag_key} turned ${event.meta.state}`);
+                } else {
+                    evidence.push(`${event.type} operation performed`);
+                }
+                break;
             default:
                 description = `${event.type} changes carry moderate risk`;
                 evidence.push(`${event.type} operation performed`);
@@ -473,6 +496,10 @@ export class ScoringEngine {
         let explanation = `This ${event.type} to ${event.service} has a ${level} risk score of ${Math.round(score)}/100. `;
         explanation += `The primary risk factor is ${topFactor.name.toLowerCase()}: ${topFactor.description}. `;
 
+        if ((event.confidence ?? 1) < 0.5) {
+            explanation += `The source reported this change with low confidence (${event.confidence}), so the score is reduced. `;
+        }
+
         if (level === 'critical' || level === 'high') {
             explanation += 'This change should be investigated as a potential root cause of the incident.';
         } else if (level === 'medium') {
@@ -0,0 +1,128 @@
+import { ChangeEventService, IngestionResult } from './ChangeEvent';
+import { WebhookDelivery, WebhookDeliveryModel, CreateWebhookDeliveryData } from '../models/WebhookDelivery';
+import { JobModel } from '../models/Job';
+import { InboundWebhookModel } from '../models/InboundWebhook';
+import config from '../config/environment';
+
+export const WEBHOOK_DELIVERY_JOB = 'webhook_delivery';
+
+export class WebhookDeliveryService {
+    // Persist a verified delivery and queue it for background processing.
+    // The sender only gets a 2xx once both rows exist, so nothing is lost if processing fails later.
+    // Both are inserted in one transaction: a delivery without its job would never be processed.
+    static async enqueue(deliveryData: CreateWebhookDeliveryData, server: any): Promise<WebhookDelivery> {
+        const client = await server.pg.connect();
+        try {
+            await client.query('BEGIN');
+
+            const delivery = await new WebhookDeliveryModel(server).create(deliveryData, client);
+
+            await new JobModel(server).enqueue({
+                organization_id: delivery.organization_id,
+                type: WEBHOOK_DELIVERY_JOB,
+                payload: { webhook_delivery_id: delivery.id },
+                max_attempts: config.jobs.maxAttempts
+            }, client);
+
+            await client.query('COMMIT');
+            return delivery;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    // Run a recorded delivery through ingestion and store the outcome on the delivery row.
+    // Used both by the job worker and for replays.
+    static async process(delivery: WebhookDelivery, server: any): Promise<IngestionResult> {
+        const model = new WebhookDeliveryModel(server);
+
+        let result: IngestionResult;
+
+        try {
+            result = await this.ingest(delivery, server);
+        } catch (error) {
+            await model.recordOutcome(delivery.id, {
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error)
+            });
+            throw error;
+        }
+
+        await model.recordOutcome(delivery.id, {
+            status: result.status,
+            error: result.status === 'rejected' ? result.reason : null,
+            change_event_id: result.event?.id
+        });
+
+        return result;
+    }
+
+    private static async ingest(delivery: WebhookDelivery, server: any): Promise<IngestionResult> {
+        let payload: any;
+
+        try {
+            payload = JSON.parse(delivery.raw_body);
+        } catch {
+            return { status: 'rejected', reason: 'Delivery body is not valid JSON' };
+        }
+
+        // Providers redeliver with the same ID, so it doubles as an idempotency key
+        const ingestion = {
+            payload,
+            eventType: delivery.event_type,
+            organization_id: delivery.organization_id,
+            server,
+            idempotency_key: delivery.delivery_id ? `${delivery.provider}:${delivery.delivery_id}` : undefined,
+            // Retries and replays run later, payloads without a timestamp happened when the delivery arrived
+            received_at: new Date(delivery.received_at)
+        };
+
+        switch (delivery.provider) {
+            case 'github':
+                return ChangeEventService.ingestFromGitHub(ingestion);
+
+            case 'gitlab':
+                return ChangeEventService.ingestFromGitLab(ingestion);
+
+            case 'bitbucket':
+                return ChangeEventService.ingestFromBitbucket(ingestion);
+
+            case 'argocd':
+                return ChangeEventService.ingestFromArgoCd(ingestion);
+
+            case 'flux':
+                return ChangeEventService.ingestFromFlux(ingestion);
+
+            case 'launchdarkly':
+                return ChangeEventService.ingestFromLaunchDarkly(ingestion);
+
+            case 'unleash':
+                return ChangeEventService.ingestFromUnleash(ingestion);
+
+            case 'docker-registry':
+                return ChangeEventService.ingestFromDockerRegistry(ingestion);
+
+            case 'harbor':
+                return ChangeEventService.ingestFromHarbor(ingestion);
+
+            case 'generic': {
+                // The mapping in force when the delivery is processed applies, so replays pick up template fixes
+                const webhook = delivery.inbound_webhook_id
+                    ? await new InboundWebhookModel(server).getById(delivery.inbound_webhook_id)
+                    : null;
+
+                if (!webhook) {
+                    return { status: 'rejected', reason: 'Inbound webhook no longer exists' };
+                }
+
+                return ChangeEventService.ingestFromInboundWebhook(webhook, ingestion);
+            }
+
+            default:
+                return { status: 'rejected', reason: `Unsupported webhook provider: ${delivery.provider}` };
+        }
+    }
+}
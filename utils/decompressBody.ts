@@ -0,0 +1,22 @@
+import { FastifyRequest, RequestPayload } from 'fastify';
+import zlib from 'zlib';
+
+// preParsing hook for uploads sent with Content-Encoding: gzip, such as CloudTrail .json.gz files from S3.
+// The route's bodyLimit applies to the decompressed body, Content-Length to the compressed one.
+export async function gunzipBody(request: Pick<FastifyRequest, 'headers'>, reply: unknown, payload: RequestPayload): Promise<RequestPayload> {
+    if (request.headers['content-encoding'] !== 'gzip') return payload;
+
+    const gunzip: zlib.Gunzip & { receivedEncodedLength?: number } = zlib.createGunzip();
+    gunzip.receivedEncodedLength = 0;
+
+    payload.on('data', (chunk: Buffer) => {
+        gunzip.receivedEncodedLength = (gunzip.receivedEncodedLength || 0) + chunk.length;
+    });
+
+    // A corrupt archive is the client's fault
+    gunzip.on('error', (error: Error & { statusCode?: number }) => {
+        error.statusCode = 400;
+    });
+
+    return payload.pipe(gunzip);
+}
@@ -0,0 +1,28 @@
+// Minimal glob matching for branch/environment/repository rules:
+//   *  matches anything except "/"
+//   ** matches anything, including "/"
+//   ?  matches a single character except "/"
+export function globToRegExp(glob: string): RegExp {
+    let pattern = '';
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if (char === '*' && glob[i + 1] === '*') {
+            pattern += '.*';
+            i++;
+        } else if (char === '*') {
+            pattern += '[^/]*';
+        } else if (char === '?') {
+            pattern += '[^/]';
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${pattern}$`, 'i');
+}
+
+export function globMatch(glob: string, value: string): boolean {
+    return globToRegExp(glob).test(value);
+}
@@ -0,0 +1,54 @@
+// Small templating syntax for generic webhook mappings.
+//
+//   "{{ deployment.service }}"              -> value at that path, kept as-is (object, number...)
+//   "Deployed {{ app.name }} {{ version }}" -> string interpolation, missing values render as ""
+//   "{{ env || labels.env || \"prod\" }}"   -> first path with a value, or a quoted literal
+//
+// Paths are dot-separated and may index arrays: "commits[0].id". Objects and arrays are rendered
+// recursively, other values are returned unchanged.
+
+const PLACEHOLDER = /\{\{\s*(.+?)\s*\}\}/g;
+const SINGLE_PLACEHOLDER = /^\{\{\s*(.+?)\s*\}\}$/;
+
+export function getPath(value: any, path: string): any {
+    const segments = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(s => s.length > 0);
+
+    return segments.reduce((current, segment) => (current == null ? undefined : current[segment]), value);
+}
+
+function evaluate(expression: string, payload: any): any {
+    for (const alternative of expression.split('||').map(a => a.trim())) {
+        const literal = alternative.match(/^"(.*)"$|^'(.*)'$/);
+        if (literal) return literal[1] ?? literal[2];
+
+        const value = getPath(payload, alternative);
+        if (value !== undefined && value !== null && value !== '') return value;
+    }
+
+    return undefined;
+}
+
+export function renderTemplate(template: any, payload: any): any {
+    if (typeof template === 'string') {
+        const single = template.match(SINGLE_PLACEHOLDER);
+        if (single) return evaluate(single[1], payload);
+
+        return template.replace(PLACEHOLDER, (_, expression) => {
+            const value = evaluate(expression, payload);
+            if (value === undefined || value === null) return '';
+            return typeof value === 'object' ? JSON.stringify(value) : String(value);
+        });
+    }
+
+    if (Array.isArray(template)) {
+        return template.map(item => renderTemplate(item, payload));
+    }
+
+    if (template && typeof template === 'object') {
+        return Object.fromEntries(
+            Object.entries(template).map(([key, value]) => [key, renderTemplate(value, payload)])
+        );
+    }
+
+    return template;
+}
@@ -0,0 +1,13 @@
+import { safeEqual } from "./webhookAuth";
+
+// Argo CD notifications do not sign payloads, the webhook service is configured to send
+// "Authorization: Bearer <secret>"
+export function verifyArgoCdToken({
+  authorization,
+  secret,
+}: {
+  authorization: string;
+  secret: string;
+}) {
+  return safeEqual(`Bearer ${secret}`, authorization);
+}
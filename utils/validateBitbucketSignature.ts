@@ -0,0 +1,14 @@
+import { verifyHmacSha256 } from "./webhookAuth";
+
+// Bitbucket Cloud and Server both send X-Hub-Signature as "sha256=<hex hmac>"
+export function verifyBitbucketSignature({
+  payload,
+  signature,
+  secret,
+}: {
+  payload: string | Buffer<ArrayBufferLike>;
+  signature: string;
+  secret: string;
+}) {
+  return verifyHmacSha256({ payload, signature, secret, prefix: "sha256=" });
+}
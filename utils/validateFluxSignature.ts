@@ -0,0 +1,14 @@
+import { verifyHmacSha256 } from "./webhookAuth";
+
+// The Flux generic-hmac provider sends X-Signature as "sha256=<hex hmac>"
+export function verifyFluxSignature({
+  payload,
+  signature,
+  secret,
+}: {
+  payload: string | Buffer<ArrayBufferLike>;
+  signature: string;
+  secret: string;
+}) {
+  return verifyHmacSha256({ payload, signature, secret, prefix: "sha256=" });
+}
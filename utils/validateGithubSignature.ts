@@ -1,4 +1,4 @@
-import crypto from "crypto";
+import { verifyHmacSha256 } from "./webhookAuth";
 
 export function verifyGitHubSignature({
   payload,
@@ -9,10 +9,5 @@ export function verifyGitHubSignature({
   signature: string;
   secret: string;
 }) {
-  const hmac = crypto.createHmac("sha256", secret);
-  hmac.update(payload);
-
-  const expected = `sha256=${hmac.digest("hex")}`;
-
-  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  return verifyHmacSha256({ payload, signature, secret, prefix: "sha256=" });
 }
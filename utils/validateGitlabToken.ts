@@ -0,0 +1,12 @@
+import { safeEqual } from "./webhookAuth";
+
+// GitLab does not sign payloads, it echoes the configured secret in X-Gitlab-Token
+export function verifyGitLabToken({
+  token,
+  secret,
+}: {
+  token: string;
+  secret: string;
+}) {
+  return safeEqual(secret, token);
+}
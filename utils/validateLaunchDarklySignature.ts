@@ -0,0 +1,14 @@
+import { verifyHmacSha256 } from "./webhookAuth";
+
+// LaunchDarkly sends X-LD-Signature as the bare hex HMAC-SHA256 of the body
+export function verifyLaunchDarklySignature({
+  payload,
+  signature,
+  secret,
+}: {
+  payload: string | Buffer<ArrayBufferLike>;
+  signature: string;
+  secret: string;
+}) {
+  return verifyHmacSha256({ payload, signature, secret });
+}
@@ -0,0 +1,15 @@
+import { safeEqual } from "./webhookAuth";
+
+// Docker Registry and Harbor notifications are not signed. The registry is configured to send the
+// secret in the Authorization header, either as "Bearer <secret>" or as-is.
+export function verifyRegistryToken({
+  authorization,
+  secret,
+}: {
+  authorization: string;
+  secret: string;
+}) {
+  const token = authorization.startsWith("Bearer ") ? authorization.substring(7) : authorization;
+
+  return safeEqual(secret, token);
+}
@@ -0,0 +1,12 @@
+import { safeEqual } from "./webhookAuth";
+
+// Unleash webhooks are not signed, the integration sends its configured Authorization header as-is
+export function verifyUnleashToken({
+  authorization,
+  secret,
+}: {
+  authorization: string;
+  secret: string;
+}) {
+  return safeEqual(secret, authorization);
+}
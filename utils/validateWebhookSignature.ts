@@ -0,0 +1,25 @@
+import { safeEqual, verifyHmacSha256 } from "./webhookAuth";
+
+// Generic inbound webhooks are signed with X-Webhook-Signature as "sha256=<hex hmac>"
+export function verifyWebhookSignature({
+  payload,
+  signature,
+  secret,
+}: {
+  payload: string | Buffer<ArrayBufferLike>;
+  signature: string;
+  secret: string;
+}) {
+  return verifyHmacSha256({ payload, signature, secret, prefix: "sha256=" });
+}
+
+// For tools that cannot sign, X-Webhook-Token carries the secret itself
+export function verifyWebhookToken({
+  token,
+  secret,
+}: {
+  token: string;
+  secret: string;
+}) {
+  return safeEqual(secret, token);
+}
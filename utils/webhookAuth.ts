@@ -0,0 +1,29 @@
+import crypto from "crypto";
+
+// Constant-time comparison of a received secret or signature with the expected value
+export function safeEqual(expected: string, received: string) {
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+
+  // timingSafeEqual throws on length mismatch, treat it as a bad signature
+  if (expectedBuffer.length !== receivedBuffer.length) return false;
+
+  return crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+// Check a hex HMAC-SHA256 of the raw body, sent after a provider-specific prefix such as "sha256="
+export function verifyHmacSha256({
+  payload,
+  signature,
+  secret,
+  prefix = "",
+}: {
+  payload: string | Buffer<ArrayBufferLike>;
+  signature: string;
+  secret: string;
+  prefix?: string;
+}) {
+  const digest = crypto.createHmac("sha256", secret).update(payload).digest("hex");
+
+  return safeEqual(`${prefix}${digest}`, signature);
+}
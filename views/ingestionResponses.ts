@@ -0,0 +1,20 @@
+import { FastifyReply } from 'fastify';
+import { IngestionResult } from '../services/ChangeEvent';
+
+// Reply for synchronous ingestion endpoints, mirroring the webhook ignored/rejected shapes
+export function sendIngestionResult(reply: FastifyReply, result: IngestionResult) {
+    if (result.status === 'ignored') {
+        return reply.code(200).send({ success: true, status: 'ignored', reason: result.reason });
+    }
+
+    if (result.status === 'rejected') {
+        return reply.code(400).send({ success: false, status: 'rejected', reason: result.reason });
+    }
+
+    return reply.code(result.duplicate ? 200 : 201).send({
+        success: true,
+        status: 'stored',
+        duplicate: result.duplicate,
+        data: result.events || [result.event]
+    });
+}
@@ -0,0 +1,14 @@
+import { FastifyReply } from 'fastify';
+import { WebhookDelivery } from '../models/WebhookDelivery';
+
+// Accepted deliveries are processed in the background, the outcome is recorded on the delivery
+export function sendQueued(reply: FastifyReply, delivery: WebhookDelivery) {
+    return reply.code(202).send({
+        success: true,
+        status: 'queued',
+        data: {
+            id: delivery.id,
+            delivery_id: delivery.delivery_id
+        }
+    });
+}